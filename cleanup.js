@@ -47,6 +47,20 @@ if (fs.existsSync('./fetch.d.ts')) {
     fs.unlinkSync('./fetch.d.ts');
 }
 
+if (fs.existsSync('./store.js')) {
+    fs.unlinkSync('./store.js');
+}
+if (fs.existsSync('./store.d.ts')) {
+    fs.unlinkSync('./store.d.ts');
+}
+
+if (fs.existsSync('./telemetry.js')) {
+    fs.unlinkSync('./telemetry.js');
+}
+if (fs.existsSync('./telemetry.d.ts')) {
+    fs.unlinkSync('./telemetry.d.ts');
+}
+
 if (fs.existsSync('./notify.js')) {
     fs.unlinkSync('./notify.js');
 }
@@ -58,6 +58,8 @@ const relocator = require("./lib/relocator");
 const moveCSS = require("./lib/css");
 const configChecker = require("./lib/config-checker");
 const noscript = require("./lib/noscript");
+const criticalCSS = require("./lib/critical-css");
+const hasher = require("./lib/hasher");
 
 class DjinnJS {
     constructor(config) {
@@ -90,6 +92,7 @@ class DjinnJS {
             }
             await this.minifyScript();
             await this.relocateServiceWorker();
+            await this.relocateDependencyManifest();
 
             if (!this.silent) {
                 spinner.text = "Relocating CSS files";
@@ -101,6 +104,16 @@ class DjinnJS {
             }
             await this.generateNoScriptCSS();
 
+            if (!this.silent) {
+                spinner.text = "Generating critical CSS files";
+            }
+            await this.generateCriticalCSS();
+
+            if (!this.silent) {
+                spinner.text = "Generating content hashed filenames";
+            }
+            await this.hashAssets();
+
             if (!this.silent) {
                 spinner.text = "Cleaning up DjinnJS temporary files";
             }
@@ -133,6 +146,12 @@ class DjinnJS {
                         reject(errror);
                     }
                     let data = buffer.toString().replace("REPLACE_WITH_TIMESTAMP", `${Date.now()}`);
+                    if (this.sites[i].assetManifest) {
+                        const cachebustData = JSON.parse(data);
+                        cachebustData.assets = this.sites[i].assetManifest;
+                        cachebustData.assetPath = `/${this.sites[i].outDir}/`;
+                        data = JSON.stringify(cachebustData, null, 4);
+                    }
                     fs.writeFile(output, data, errror => {
                         if (errror) {
                             reject(errror);
@@ -166,6 +185,50 @@ class DjinnJS {
         });
     }
 
+    hashAssets() {
+        return new Promise((resolve, reject) => {
+            let sitesCompleted = 0;
+            for (let i = 0; i < this.sites.length; i++) {
+                if (this.sites[i].env === "production") {
+                    hasher(this.sites[i].publicDir, this.sites[i].outDir)
+                        .then(manifest => {
+                            this.sites[i].assetManifest = manifest;
+                            sitesCompleted++;
+                            if (sitesCompleted === this.sites.length) {
+                                resolve();
+                            }
+                        })
+                        .catch(error => {
+                            reject(error);
+                        });
+                } else {
+                    sitesCompleted++;
+                    if (sitesCompleted === this.sites.length) {
+                        resolve();
+                    }
+                }
+            }
+        });
+    }
+
+    generateCriticalCSS() {
+        return new Promise((resolve, reject) => {
+            let sitesCompleted = 0;
+            for (let i = 0; i < this.sites.length; i++) {
+                criticalCSS(this.sites[i].templates, this.sites[i].publicDir, this.sites[i].outDir, this.sites[i].criticalCSSBudget)
+                    .then(() => {
+                        sitesCompleted++;
+                        if (sitesCompleted === this.sites.length) {
+                            resolve();
+                        }
+                    })
+                    .catch(error => {
+                        reject(error);
+                    });
+            }
+        });
+    }
+
     relocateCSS() {
         return new Promise((resolve, reject) => {
             let sitesCompleted = 0;
@@ -217,6 +280,25 @@ class DjinnJS {
         });
     }
 
+    relocateDependencyManifest() {
+        return new Promise((resolve, reject) => {
+            let sitesCompleted = 0;
+            for (let i = 0; i < this.sites.length; i++) {
+                const handle = this.sites[i].handle === undefined ? "default" : this.sites[i].handle;
+                relocator(handle, this.sites[i].publicDir, this.sites[i].outDir, "json")
+                    .then(() => {
+                        sitesCompleted++;
+                        if (sitesCompleted === this.sites.length) {
+                            resolve();
+                        }
+                    })
+                    .catch(error => {
+                        reject(error);
+                    });
+            }
+        });
+    }
+
     relocateServiceWorker() {
         return new Promise((resolve, reject) => {
             for (let i = 0; i < this.sites.length; i++) {
@@ -297,6 +379,8 @@ class DjinnJS {
                     data = data.replace('"REPLACE_WITH_PREFETCH_STATUS"', this.sites[i].disablePrefetching);
                     data = data.replace('"REPLACE_WITH_USE_PERCENTAGE"', this.sites[i].usePercentage);
                     data = data.replace('"REPLACE_WITH_USE_SERVICE_WORKER"', this.sites[i].disableServiceWorker);
+                    data = data.replace('"REPLACE_WITH_LOADING_BUDGETS"', JSON.stringify(JSON.stringify(this.sites[i].loadingBudgets)));
+                    data = data.replace('"REPLACE_WITH_USE_ASSET_MANIFEST"', this.sites[i].env === "production");
                     fs.writeFile(runtimeFile, data, error => {
                         if (error) {
                             reject(error);
@@ -440,6 +524,9 @@ class DjinnJS {
                     disablePjax: this.config.disablePjax,
                     disablePrefetching: this.config.disablePrefetching,
                     usePercentage: this.config.usePercentage,
+                    templates: this.config.templates,
+                    criticalCSSBudget: this.config.criticalCSSBudget,
+                    loadingBudgets: this.config.loadingBudgets,
                 };
                 configChecker(site)
                     .then(validSite => {
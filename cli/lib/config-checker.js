@@ -68,6 +68,26 @@ function checkSite(site, multisite = false) {
             reject(`Invalid DjinnJS configuration. The usePercentage value must be a boolean.`);
         }
 
+        if (site.templates === undefined) {
+            site.templates = [];
+        } else if (typeof site.templates === 'string') {
+            site.templates = [site.templates];
+        } else if (!Array.isArray(site.templates)) {
+            reject(`Invalid DjinnJS configuration. The templates value must be a string or an array of strings.`);
+        }
+
+        if (site.criticalCSSBudget === undefined) {
+            site.criticalCSSBudget = 14000;
+        } else if (typeof site.criticalCSSBudget !== 'number' || site.criticalCSSBudget <= 0) {
+            reject(`Invalid DjinnJS configuration. The criticalCSSBudget value must be a positive number.`);
+        }
+
+        if (site.loadingBudgets === undefined) {
+            site.loadingBudgets = {};
+        } else if (typeof site.loadingBudgets !== 'object' || Object.values(site.loadingBudgets).some(budget => typeof budget !== 'number')) {
+            reject(`Invalid DjinnJS configuration. The loadingBudgets value must be an object of numbers.`);
+        }
+
         let env = site.env || yargs.e || yargs.env;
         if (!env) {
             env = 'production';
@@ -0,0 +1,140 @@
+const glob = require('glob');
+const fs = require('fs');
+const path = require('path');
+
+const cwd = process.cwd();
+
+function getTemplates(templateDirs) {
+    return new Promise((resolve, reject) => {
+        let searched = 0;
+        let templates = [];
+        for (let i = 0; i < templateDirs.length; i++) {
+            const dirPath = path.resolve(cwd, templateDirs[i]);
+            glob(`${dirPath}/**/*.{html,htm,twig,njk,hbs}`, (error, files) => {
+                if (error) {
+                    reject(error);
+                }
+                for (let k = 0; k < files.length; k++) {
+                    templates.push({
+                        file: files[k],
+                        name: path
+                            .relative(dirPath, files[k])
+                            .replace(/\.[^\.\/\\]+$/, '')
+                            .replace(/[\/\\]/g, '-'),
+                    });
+                }
+                searched++;
+                if (searched === templateDirs.length) {
+                    resolve(templates);
+                }
+            });
+        }
+    });
+}
+
+/**
+ * Collects the unique file names from the templates `eager-load-css` attributes in the order they're declared.
+ * HTML and Twig comments are ignored.
+ */
+function parseEagerLoadedCSS(template) {
+    const html = template.replace(/<!--[\s\S]*?-->|\{#[\s\S]*?#\}/g, '');
+    const pattern = /eager-load-css\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi;
+    const files = [];
+    let match;
+    while ((match = pattern.exec(html)) !== null) {
+        const value = match[1] || match[2] || match[3] || '';
+        const filenames = value.trim().split(/\s+/g);
+        for (let i = 0; i < filenames.length; i++) {
+            const filename = filenames[i].toLowerCase().replace(/(\.css)$|(\.scss)$/g, '');
+            if (filename !== '' && !files.includes(filename)) {
+                files.push(filename);
+            }
+        }
+    }
+    return files;
+}
+
+function minifyCSS(css) {
+    return css
+        .replace(/\/\*[\s\S]*?\*\//g, '')
+        .replace(/\s+/g, ' ')
+        .replace(/<\//g, '<\\/')
+        .trim();
+}
+
+/**
+ * Merges the eager loaded stylesheets into a `<style>` snippet until the budget is reached.
+ * Inlining stops at the first stylesheet that would exceed the budget so the cascade order is preserved, the remaining stylesheets will be fetched by the runtime instead.
+ */
+function build(template, assetDir, budget) {
+    return new Promise((resolve, reject) => {
+        fs.readFile(template.file, (error, buffer) => {
+            if (error) {
+                reject(error);
+            }
+            const filenames = parseEagerLoadedCSS(buffer.toString());
+            const inlined = [];
+            let data = '';
+            for (let i = 0; i < filenames.length; i++) {
+                const file = `${assetDir}/${filenames[i]}.css`;
+                if (!fs.existsSync(file)) {
+                    console.warn(`\nThe ${template.name} template requested the ${filenames[i]} stylesheet but it doesn't exist.`);
+                    continue;
+                }
+                const css = minifyCSS(fs.readFileSync(file).toString());
+                if (Buffer.byteLength(data + css) > budget) {
+                    console.warn(`\nThe ${filenames[i]} stylesheet exceeds the ${template.name} templates critical CSS budget of ${budget} bytes, it and the stylesheets after it will not be inlined.`);
+                    break;
+                }
+                data += css;
+                inlined.push(filenames[i]);
+            }
+            if (inlined.length === 0) {
+                resolve();
+                return;
+            }
+            fs.writeFile(`${assetDir}/critical/${template.name}.html`, `<style inlined-css="${inlined.join(' ')}">${data}</style>\n`, error => {
+                if (error) {
+                    reject(error);
+                }
+                resolve();
+            });
+        });
+    });
+}
+
+function createCriticalDirectory(assetDir) {
+    return new Promise((resolve, reject) => {
+        const dir = `${assetDir}/critical`;
+        if (fs.existsSync(dir)) {
+            resolve();
+            return;
+        }
+        fs.mkdir(dir, error => {
+            if (error) {
+                reject(error);
+            }
+            resolve();
+        });
+    });
+}
+
+async function criticalCSS(templateDirs, publicDir, outDir, budget) {
+    try {
+        if (templateDirs.length === 0) {
+            return;
+        }
+        const assetDir = path.resolve(cwd, publicDir, outDir);
+        const templates = await getTemplates(templateDirs);
+        if (templates.length === 0) {
+            return;
+        }
+        await createCriticalDirectory(assetDir);
+        await Promise.all(templates.map(template => build(template, assetDir, budget)));
+        return;
+    } catch (error) {
+        throw error;
+    }
+}
+
+module.exports = criticalCSS;
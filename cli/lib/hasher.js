@@ -0,0 +1,131 @@
+const glob = require('glob');
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const cwd = process.cwd();
+
+/** Matches the relative import specifiers of static, side effect, and dynamic imports */
+const importPattern = /(from\s*|import\s*\(?\s*)([\'\"])\.\/([^\'\"\/\\]+?\.js)\2/g;
+
+function getFiles(assetDir) {
+    return new Promise((resolve, reject) => {
+        glob(`${assetDir}/*.{js,css}`, (error, files) => {
+            if (error) {
+                reject(error);
+            }
+            resolve(files.filter(file => !/\.[0-9a-f]{8}\.(js|css)$/.test(file)));
+        });
+    });
+}
+
+function readFiles(files) {
+    return new Promise((resolve, reject) => {
+        const assets = {};
+        if (files.length === 0) {
+            resolve(assets);
+        }
+        let read = 0;
+        for (let i = 0; i < files.length; i++) {
+            fs.readFile(files[i], (error, buffer) => {
+                if (error) {
+                    reject(error);
+                }
+                const filename = files[i].replace(/.*[\/\\]/g, '');
+                const data = buffer.toString();
+                const imports = [];
+                if (/\.js$/.test(filename)) {
+                    let match;
+                    importPattern.lastIndex = 0;
+                    while ((match = importPattern.exec(data)) !== null) {
+                        if (!imports.includes(match[3])) {
+                            imports.push(match[3]);
+                        }
+                    }
+                }
+                assets[filename] = {
+                    data: data,
+                    imports: imports,
+                    hash: crypto
+                        .createHash('md5')
+                        .update(data)
+                        .digest('hex'),
+                };
+                read++;
+                if (read === files.length) {
+                    resolve(assets);
+                }
+            });
+        }
+    });
+}
+
+/**
+ * Generates the content hashed filename of every asset.
+ * Scripts are hashed along with every module in their import graph so a changed import also changes the filename of the importing script.
+ */
+function createManifest(assets) {
+    const manifest = {};
+    for (const filename in assets) {
+        const graph = [];
+        const queue = [...assets[filename].imports];
+        while (queue.length) {
+            const dependency = queue.shift();
+            if (graph.includes(dependency) || dependency === filename || assets[dependency] === undefined) {
+                continue;
+            }
+            graph.push(dependency);
+            queue.push(...assets[dependency].imports);
+        }
+        const hash = crypto.createHash('md5').update(assets[filename].hash);
+        graph.sort().map(dependency => {
+            hash.update(assets[dependency].hash);
+        });
+        manifest[filename] = filename.replace(/\.(js|css)$/, `.${hash.digest('hex').slice(0, 8)}.$1`);
+    }
+    return manifest;
+}
+
+/**
+ * Writes the content hashed copy of every asset and rewrites the import specifiers of every script to the content hashed filenames.
+ * The original files are kept for assets referenced directly by HTML, such as `runtime.js`, and for the workers.
+ */
+function writeFiles(assets, manifest, assetDir) {
+    return new Promise((resolve, reject) => {
+        const filenames = Object.keys(assets);
+        let written = 0;
+        const writes = filenames.length * 2 + 1;
+        const done = error => {
+            if (error) {
+                reject(error);
+            }
+            written++;
+            if (written === writes) {
+                resolve();
+            }
+        };
+        for (let i = 0; i < filenames.length; i++) {
+            const data = assets[filenames[i]].data.replace(importPattern, (match, statement, quote, filename) => {
+                return manifest[filename] === undefined ? match : `${statement}${quote}./${manifest[filename]}${quote}`;
+            });
+            fs.writeFile(`${assetDir}/${manifest[filenames[i]]}`, data, done);
+            fs.writeFile(`${assetDir}/${filenames[i]}`, data, done);
+        }
+        fs.writeFile(`${assetDir}/asset-manifest.json`, JSON.stringify(manifest), done);
+    });
+}
+
+async function hasher(publicDir, outDir) {
+    try {
+        const assetDir = path.resolve(cwd, publicDir, outDir);
+        const files = await getFiles(assetDir);
+        const assets = await readFiles(files);
+        const manifest = createManifest(assets);
+        await writeFiles(assets, manifest, assetDir);
+        return manifest;
+    } catch (error) {
+        throw error;
+    }
+}
+
+module.exports = hasher;
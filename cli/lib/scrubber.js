@@ -21,6 +21,7 @@ function scrubFiles(files, handle) {
             resolve();
         }
         let scrubbed = 0;
+        const dependencies = {};
         const outDir = path.resolve(__dirname, `../temp/${handle}`);
         for (let i = 0; i < files.length; i++) {
             const filePath = files[i];
@@ -35,11 +36,26 @@ function scrubFiles(files, handle) {
                 /** Grab everything between the string values for the import statement */
                 let importFilePaths = data.match(/(?<=from\s+[\'\"]).*(?=[\'\"]\;)/g);
 
+                /** Grab everything between the string values for side effect import statements */
+                const sideEffectFilePaths = data.match(/(?<=import\s+[\'\"]).*(?=[\'\"]\;)/g);
+
+                /** Record the module dependency graph, keyed by the file name without the extension */
+                const moduleName = filename.replace(/(\.js)$/, '');
+                dependencies[moduleName] = [];
+
                 if (importFilePaths) {
                     importFilePaths.map(path => {
                         /** Remove everything in the path except the file name */
                         let pathFileName = path.replace(/.*[\/\\]/g, '').replace(/(\.ts)|(\.js)$/g, '');
                         data = data.replace(`${path}`, `./${pathFileName}.js`);
+                        dependencies[moduleName].push(pathFileName);
+                    });
+                }
+
+                if (sideEffectFilePaths) {
+                    sideEffectFilePaths.map(path => {
+                        let pathFileName = path.replace(/.*[\/\\]/g, '').replace(/(\.ts)|(\.js)$/g, '');
+                        dependencies[moduleName].push(pathFileName);
                     });
                 }
 
@@ -50,7 +66,13 @@ function scrubFiles(files, handle) {
 
                     scrubbed++;
                     if (scrubbed === files.length) {
-                        resolve();
+                        writeDependencyManifest(dependencies, outDir)
+                            .then(() => {
+                                resolve();
+                            })
+                            .catch(error => {
+                                reject(error);
+                            });
                     }
                 });
             });
@@ -58,6 +80,21 @@ function scrubFiles(files, handle) {
     });
 }
 
+/**
+ * Writes the `dependencies.json` manifest listing the direct imports of every scrubbed file.
+ * The runtime uses the manifest to preload a web components entire import graph.
+ */
+function writeDependencyManifest(dependencies, outDir) {
+    return new Promise((resolve, reject) => {
+        fs.writeFile(`${outDir}/dependencies.json`, JSON.stringify(dependencies), error => {
+            if (error) {
+                reject(error);
+            }
+            resolve();
+        });
+    });
+}
+
 function createTempDirectory(outDir) {
     return new Promise((resolve, reject) => {
         const dir = path.resolve(__dirname, `../temp/${outDir}`);
@@ -68,6 +68,28 @@ fs.copyFile("./dist/core/fetch.d.ts", "./fetch.d.ts", error => {
     }
 });
 
+fs.copyFile("./dist/core/store.js", "./store.js", error => {
+    if (error) {
+        console.log(error);
+    }
+});
+fs.copyFile("./dist/core/store.d.ts", "./store.d.ts", error => {
+    if (error) {
+        console.log(error);
+    }
+});
+
+fs.copyFile("./dist/core/telemetry.js", "./telemetry.js", error => {
+    if (error) {
+        console.log(error);
+    }
+});
+fs.copyFile("./dist/core/telemetry.d.ts", "./telemetry.d.ts", error => {
+    if (error) {
+        console.log(error);
+    }
+});
+
 function moveCssToDist() {
     const pathToSrc = path.join(__dirname, "./src");
     const pathToDist = path.join(__dirname, "./dist");
@@ -1,20 +1,60 @@
 import { broadcaster } from "./broadcaster.js";
 import { debug } from "./env.js";
 
-export class Actor extends HTMLElement {
+type PersistedActor = {
+    actor: Actor | null;
+    state: unknown;
+    inboxId: string | null;
+    messageBuffer: Array<{ data: MessageData; reply: ReplyCallback }>;
+    releaseTimer: number;
+};
+
+/** Actors with a `pjax-persist` attribute, keyed by the attribute value */
+const persistedActors: { [persistId: string]: PersistedActor } = {};
+
+/** Milliseconds a persisted inbox waits for a new actor before it's disconnected */
+const persistedInboxTimeout = 5000;
+
+export class Actor<TMessages extends MessageData = MessageData> extends HTMLElement {
     public inboxId: string;
+    /** When `true` an actor with a `pjax-persist` attribute keeps the same inbox registration across Pjax swaps */
+    public persistInbox: boolean;
     private inboxName: string;
+    private messageTypes: Array<string>;
+    private persistId: string;
 
-    constructor(inboxName: string) {
+    /**
+     * @param inboxName - the name of the actors inbox
+     * @param messageTypes - the message `type` values the inbox accepts, unknown types are reported in debug builds
+     */
+    constructor(inboxName: string, messageTypes: Array<TMessages["type"]> = null) {
         super();
         this.inboxName = inboxName;
+        this.messageTypes = messageTypes;
+        this.persistInbox = false;
+        this.persistId = null;
     }
 
     // eslint-disable-next-line
-    public inbox(data: MessageData): void {}
+    public inbox(data: TMessages, reply?: ReplyCallback): void {}
     public connected(): void {}
     public disconnected(): void {}
 
+    /**
+     * Called before an actor with a `pjax-persist` attribute is removed by a Pjax swap.
+     * @returns - the state that will be passed to the `restore()` method of the actor that replaces this one
+     */
+    public serialize(): unknown {
+        return null;
+    }
+
+    /**
+     * Called before `connected()` when an actor with the same `pjax-persist` attribute value was previously removed.
+     * @param state - the value returned by the previous actors `serialize()` method
+     */
+    // eslint-disable-next-line
+    public restore(state: unknown): void {}
+
     private connectedCallback() {
         if (!this.inboxName) {
             if (debug) {
@@ -22,12 +62,109 @@ export class Actor extends HTMLElement {
             }
             this.inboxName = "nil";
         }
-        this.inboxId = broadcaster.hookup(this.inboxName, this.inbox.bind(this));
-        this.connected();
+        this.persistId = this.getAttribute("pjax-persist");
+        if (this.persistId !== null) {
+            this.connectPersistedActor();
+        } else {
+            this.inboxId = broadcaster.hookup(this.inboxName, this.receive.bind(this));
+            this.connected();
+        }
     }
 
     private disconnectedCallback() {
-        broadcaster.disconnect(this.inboxId);
+        const persistedActor = this.persistId !== null ? persistedActors[this.persistId] : null;
+        if (persistedActor?.actor === this) {
+            persistedActor.state = this.serialize();
+            persistedActor.actor = null;
+            if (persistedActor.inboxId !== null) {
+                persistedActor.releaseTimer = window.setTimeout(() => {
+                    this.releasePersistedInbox(persistedActor);
+                }, persistedInboxTimeout);
+            }
+        }
+        if (persistedActor?.inboxId !== this.inboxId) {
+            broadcaster.disconnect(this.inboxId);
+        }
         this.disconnected();
     }
+
+    /**
+     * Restores the state of the actor that previously used this actors `pjax-persist` attribute value.
+     * When `persistInbox` is `true` the previous inbox registration is reused and any messages received during the swap are delivered after `connected()`.
+     */
+    private connectPersistedActor(): void {
+        let persistedActor = persistedActors[this.persistId];
+        let hasState = true;
+        if (!persistedActor) {
+            persistedActor = {
+                actor: null,
+                state: null,
+                inboxId: null,
+                messageBuffer: [],
+                releaseTimer: null,
+            };
+            persistedActors[this.persistId] = persistedActor;
+            hasState = false;
+        } else if (persistedActor.actor !== null && persistedActor.actor !== this && persistedActor.actor.isConnected) {
+            /** Transitions like `slide` connect the new view before the old view is removed */
+            persistedActor.state = persistedActor.actor.serialize();
+        }
+        persistedActor.actor = this;
+        clearTimeout(persistedActor.releaseTimer);
+        persistedActor.releaseTimer = null;
+
+        if (this.persistInbox) {
+            if (persistedActor.inboxId === null) {
+                persistedActor.inboxId = broadcaster.hookup(this.inboxName, (data: MessageData, reply: ReplyCallback) => {
+                    this.dispatchPersistedMessage(persistedActor, data, reply);
+                });
+            }
+            this.inboxId = persistedActor.inboxId;
+        } else {
+            this.inboxId = broadcaster.hookup(this.inboxName, this.receive.bind(this));
+        }
+
+        if (hasState) {
+            this.restore(persistedActor.state);
+        }
+        this.connected();
+
+        const messageBuffer = persistedActor.messageBuffer;
+        persistedActor.messageBuffer = [];
+        for (let i = 0; i < messageBuffer.length; i++) {
+            this.receive(messageBuffer[i].data, messageBuffer[i].reply);
+        }
+    }
+
+    /**
+     * Sends a message received by a persisted inbox to the current actor or buffers the message while the actor is being swapped.
+     */
+    private dispatchPersistedMessage(persistedActor: PersistedActor, data: MessageData, reply: ReplyCallback): void {
+        if (persistedActor.actor !== null) {
+            persistedActor.actor.receive(data, reply);
+        } else {
+            persistedActor.messageBuffer.push({ data: data, reply: reply });
+        }
+    }
+
+    /**
+     * Disconnects a persisted inbox when no actor reclaimed it after a Pjax swap.
+     */
+    private releasePersistedInbox(persistedActor: PersistedActor): void {
+        if (persistedActor.actor === null && persistedActor.inboxId !== null) {
+            broadcaster.disconnect(persistedActor.inboxId);
+            persistedActor.inboxId = null;
+            persistedActor.messageBuffer = [];
+        }
+    }
+
+    /**
+     * Checks the incoming message against the declared message types before passing it to the inbox.
+     */
+    private receive(data: MessageData, reply?: ReplyCallback): void {
+        if (debug && this.messageTypes !== null && !this.messageTypes.includes(data.type)) {
+            console.warn(`The ${this.inboxName} inbox received an unknown message type: ${data.type}`);
+        }
+        this.inbox(data as TMessages, reply);
+    }
 }
@@ -8,22 +8,71 @@ type InboxData = {
     name: string;
     address: number;
     uid: string;
+    pattern: RegExp | null;
+};
+
+type StoreData = {
+    name: string;
+    state: { [key: string]: unknown };
+    initialState: { [key: string]: unknown };
+    initialized: boolean;
+    subscribers: Array<string>;
+    diff: { [key: string]: unknown };
+    hasChanges: boolean;
+};
+
+/** A `Durable` message stored in the IDBDatabase, the message is leased to the worker of the tab that queued it */
+type StoredMessage = BroadcastWorkerMessage & {
+    owner: string;
+    leaseExpires: number;
 };
 
 class BroadcastHelper {
     private queuedMessages: Array<BroadcastWorkerMessage>;
-    private queueTimer: WindowTimers;
-    private queueTimeout = 1000; // Milliseconds
+    private queueTimer: number;
+    private queueTimeout = 1000; // Milliseconds, default retry delay
+    private maxQueueTimeout = 300_000; // Milliseconds, default maximum retry delay
+    private timeoutLimit = 2_147_483_647; // Milliseconds, longer delays overflow `setTimeout()`
+    private retainedMessages: Array<BroadcastWorkerMessage>;
+    private retainedMessageLimit = 10; // Per recipient
     private inboxes: Array<InboxData>;
+    private pendingReplies: Array<string>;
+    private channel: BroadcastChannel;
+    private database: Promise<IDBDatabase>;
+    private inspecting: boolean;
+    private stores: Array<StoreData>;
+    private storeNotificationPending: boolean;
+    private protocolVersion: WorkerProtocolVersion = 2;
+    private workerId: string;
+    private leaseDuration = 10_000; // Milliseconds, stored messages are only replayed by other tabs once their lease expires
 
     constructor() {
         self.onmessage = this.handleMessage.bind(this);
         this.queuedMessages = [];
         this.queueTimer = null;
+        this.retainedMessages = [];
         this.inboxes = [];
+        this.pendingReplies = [];
+        this.channel = null;
+        this.inspecting = false;
+        this.stores = [];
+        this.storeNotificationPending = false;
 
-        // @ts-ignore
-        self.postMessage({
+        /** Bridges `global` messages between every open tab of the origin */
+        if ("BroadcastChannel" in self) {
+            this.channel = new BroadcastChannel("djinnjs-broadcaster");
+            this.channel.onmessage = this.handleChannelMessage.bind(this);
+        }
+
+        this.workerId = this.generateUUID();
+        this.database = this.openDatabase();
+        this.replayStoredMessages();
+        self.setInterval(() => {
+            this.renewLeases();
+            this.replayStoredMessages();
+        }, this.leaseDuration / 2);
+
+        this.postResponse({
             recipient: "broadcaster",
             data: {
                 type: "ready",
@@ -33,16 +82,107 @@ class BroadcastHelper {
 
     /**
      * Add the inbox to the inboxes array.
+     * Inbox names containing a `*` wildcard are compiled into a topic pattern.
      * @param data - an `InboxHookupMessage` object
      */
     private addInbox(data: InboxHookupMessage): void {
         const { name, inboxAddress } = data;
+        const cleanName = name.trim().toLowerCase();
         const inboxData: InboxData = {
-            name: name.trim().toLowerCase(),
+            name: cleanName,
             address: inboxAddress,
             uid: this.generateUUID(),
+            pattern: this.compileTopicPattern(cleanName),
         };
         this.inboxes.push(inboxData);
+        this.replayRetainedMessages(inboxData);
+        this.sendInspectorSnapshot();
+    }
+
+    /**
+     * Stores the message so it can be replayed to inboxes that are hooked up later.
+     * Only the most recent messages for each recipient are kept, see `retainedMessageLimit`.
+     * @param message - the `BroadcastWorkerMessage` object
+     */
+    private retainMessage(message: BroadcastWorkerMessage): void {
+        const recipient = message.recipient.trim().toLowerCase();
+        let retainedCount = 0;
+        let oldestIndex = -1;
+        for (let i = 0; i < this.retainedMessages.length; i++) {
+            if (this.retainedMessages[i].recipient.trim().toLowerCase() === recipient) {
+                retainedCount++;
+                if (oldestIndex === -1) {
+                    oldestIndex = i;
+                }
+            }
+        }
+        if (retainedCount >= this.retainedMessageLimit) {
+            this.retainedMessages.splice(oldestIndex, 1);
+        }
+        this.retainedMessages.push(message);
+    }
+
+    /**
+     * Sends the retained messages to a newly hooked up inbox in the order they were sent.
+     * Messages still waiting in the `Guaranteed` queue are skipped since the queue will deliver them.
+     * @param inbox - the new `InboxData` object
+     */
+    private replayRetainedMessages(inbox: InboxData): void {
+        for (let i = 0; i < this.retainedMessages.length; i++) {
+            const message = this.retainedMessages[i];
+            const recipient = message.recipient.trim().toLowerCase();
+            if ((!this.isRecipient(inbox, recipient, this.compileTopicPattern(recipient)) && !this.isObserver(inbox, recipient)) || this.isQueued(message.messageId)) {
+                continue;
+            }
+            this.postResponse({
+                type: "lookup",
+                data: message.data,
+                inboxIndexes: [inbox.address],
+                messageId: message.messageId,
+                replyRequested: false,
+            });
+        }
+    }
+
+    /**
+     * Converts a topic name such as `cart.*` into a regular expression.
+     * The `*` wildcard matches any sequence of characters, so `*` matches every topic.
+     * @param name - the inbox or recipient name
+     * @returns - a `RegExp` or `null` when the name doesn't contain a wildcard
+     */
+    private compileTopicPattern(name: string): RegExp | null {
+        if (name.indexOf("*") === -1) {
+            return null;
+        }
+        const escapedName = name.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+        return new RegExp(`^${escapedName}$`);
+    }
+
+    /**
+     * Checks if the message is delivered to an inbox.
+     * Recipient names can use wildcards, inboxes subscribed using a wildcard pattern only observe the message, see `isObserver()`.
+     * @param inbox - the `InboxData` object
+     * @param recipient - the cleaned recipient name
+     * @param recipientPattern - the compiled recipient topic pattern
+     */
+    private isRecipient(inbox: InboxData, recipient: string, recipientPattern: RegExp | null): boolean {
+        if (inbox.name === recipient) {
+            return true;
+        }
+        if (inbox.pattern === null && recipientPattern !== null && recipientPattern.test(inbox.name)) {
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Checks if an inbox subscribed using a wildcard pattern receives a copy of the message.
+     * Copies don't count as a delivery, so they don't prevent queueing and they can't be replied to.
+     * @param inbox - the `InboxData` object
+     * @param recipient - the cleaned recipient name
+     */
+    private isObserver(inbox: InboxData, recipient: string): boolean {
+        return inbox.pattern !== null && inbox.name !== recipient && inbox.pattern.test(recipient);
     }
 
     private removeInbox(data: InboxDisconnectMessage): void {
@@ -53,20 +193,21 @@ class BroadcastHelper {
                 break;
             }
         }
+        this.sendInspectorSnapshot();
     }
 
     private updateAddressIndexes(data: InboxUpdateMessage): void {
         const { addresses } = data;
         for (let i = 0; i < addresses.length; i++) {
             for (let k = 0; k < this.inboxes.length; k++) {
-                if (addresses[i].oldAddressIndex === this.inboxes[i].address) {
-                    this.inboxes[i].address = addresses[i].newAddressIndex;
+                if (addresses[i].oldAddressIndex === this.inboxes[k].address) {
+                    this.inboxes[k].address = addresses[i].newAddressIndex;
                     break;
                 }
             }
         }
-        // @ts-ignore
-        self.postMessage({
+        this.sendInspectorSnapshot();
+        this.postResponse({
             recipient: "broadcaster",
             data: {
                 type: "ready",
@@ -76,35 +217,250 @@ class BroadcastHelper {
 
     /**
      * The personal inbox of the `broadcast-worker` inbox.
-     * @param data - the incoming `BroadcastWorkerMessage` data object
+     * @param data - the incoming `BroadcastWorkerRequest` data object
      */
-    private inbox(data: MessageData) {
+    private inbox(data: BroadcastWorkerRequest) {
+        const { type } = data;
         switch (data.type) {
             case "hookup":
-                this.addInbox(data as InboxHookupMessage);
+                this.addInbox(data);
                 break;
             case "disconnect":
-                this.removeInbox(data as InboxDisconnectMessage);
+                this.removeInbox(data);
                 break;
             case "update-addresses":
-                this.updateAddressIndexes(data as InboxUpdateMessage);
+                this.updateAddressIndexes(data);
                 break;
             case "init":
-                this.handleUserDeviceInfo(data as UserDeviceInfoMessage);
+                this.handleUserDeviceInfo(data);
+                break;
+            case "reply":
+                this.routeReply(data);
+                break;
+            case "cancel-request":
+                this.removePendingReply(data.messageId);
+                break;
+            case "store-create":
+                this.createStore(data);
+                break;
+            case "store-action":
+                this.applyStoreAction(data);
+                break;
+            case "store-subscribe":
+                this.subscribeToStore(data);
+                break;
+            case "store-unsubscribe":
+                this.unsubscribeFromStore(data);
+                break;
+            case "inspect":
+                this.inspecting = true;
+                this.sendInspectorSnapshot();
+                break;
+            default:
+                console.warn(`Unknown broadcast-worker message type: ${type}`);
+                break;
+        }
+    }
+
+    /**
+     * Gets a store by name, stores that don't exist yet are created without a state.
+     * @param name - the name of the store
+     */
+    private getStore(name: string): StoreData {
+        for (let i = 0; i < this.stores.length; i++) {
+            if (this.stores[i].name === name) {
+                return this.stores[i];
+            }
+        }
+        const store: StoreData = {
+            name: name,
+            state: {},
+            initialState: {},
+            initialized: false,
+            subscribers: [],
+            diff: {},
+            hasChanges: false,
+        };
+        this.stores.push(store);
+        return store;
+    }
+
+    /**
+     * Sets the initial state of a store. Stores that were already created keep their current state.
+     * @param data - a `StoreCreateMessage` object
+     */
+    private createStore(data: StoreCreateMessage): void {
+        const store = this.getStore(data.store);
+        if (store.initialized) {
+            return;
+        }
+        store.initialized = true;
+        store.initialState = { ...data.state };
+        this.updateStoreState(store, { ...data.state }, []);
+    }
+
+    /**
+     * Applies the action to the stores state and schedules a `store-update` notification when the state changed.
+     * @param data - a `StoreActionMessage` object
+     */
+    private applyStoreAction(data: StoreActionMessage): void {
+        const store = this.getStore(data.store);
+        const { action } = data;
+        switch (action.type) {
+            case "set":
+                this.updateStoreState(store, action.state, []);
+                break;
+            case "delete":
+                this.updateStoreState(store, {}, action.keys);
+                break;
+            case "reset":
+                const deletedKeys = Object.keys(store.state).filter(key => !(key in store.initialState));
+                this.updateStoreState(store, { ...store.initialState }, deletedKeys);
                 break;
             default:
-                console.warn(`Unknown broadcast-worker message type: ${data.type}`);
+                console.warn(`Unknown store action type: ${data.action.type}`);
                 break;
         }
     }
 
+    /**
+     * Updates the stores state and records the changed keys in the stores diff.
+     * @param store - the `StoreData` object
+     * @param updates - the keys and values that will be set
+     * @param deletedKeys - the keys that will be removed
+     */
+    private updateStoreState(store: StoreData, updates: { [key: string]: unknown }, deletedKeys: Array<string>): void {
+        for (const key in updates) {
+            if (store.state[key] !== updates[key] || !(key in store.state)) {
+                store.state[key] = updates[key];
+                store.diff[key] = updates[key];
+                store.hasChanges = true;
+            }
+        }
+        for (let i = 0; i < deletedKeys.length; i++) {
+            if (deletedKeys[i] in store.state) {
+                delete store.state[deletedKeys[i]];
+                store.diff[deletedKeys[i]] = undefined;
+                store.hasChanges = true;
+            }
+        }
+        if (store.hasChanges) {
+            this.scheduleStoreNotification();
+        }
+    }
+
+    /**
+     * Adds the inbox to the stores subscribers and sends the inbox the current state.
+     * @param data - a `StoreSubscriptionMessage` object
+     */
+    private subscribeToStore(data: StoreSubscriptionMessage): void {
+        const store = this.getStore(data.store);
+        const inbox = data.inbox.trim().toLowerCase();
+        if (!store.subscribers.includes(inbox)) {
+            store.subscribers.push(inbox);
+        }
+        if (store.initialized) {
+            this.sendStoreUpdate(store, inbox, { ...store.state });
+        }
+    }
+
+    private unsubscribeFromStore(data: StoreSubscriptionMessage): void {
+        const store = this.getStore(data.store);
+        const inbox = data.inbox.trim().toLowerCase();
+        for (let i = 0; i < store.subscribers.length; i++) {
+            if (store.subscribers[i] === inbox) {
+                store.subscribers.splice(i, 1);
+                break;
+            }
+        }
+    }
+
+    /**
+     * Batches store notifications so subscribers are notified at most once per frame.
+     */
+    private scheduleStoreNotification(): void {
+        if (this.storeNotificationPending) {
+            return;
+        }
+        this.storeNotificationPending = true;
+        if ("requestAnimationFrame" in self) {
+            self.requestAnimationFrame(this.notifyStoreSubscribers.bind(this));
+        } else {
+            self.setTimeout(this.notifyStoreSubscribers.bind(this), 16);
+        }
+    }
+
+    /**
+     * Sends the accumulated diff of every changed store to the stores subscribers.
+     */
+    private notifyStoreSubscribers(): void {
+        this.storeNotificationPending = false;
+        for (let i = 0; i < this.stores.length; i++) {
+            const store = this.stores[i];
+            if (!store.hasChanges) {
+                continue;
+            }
+            for (let k = 0; k < store.subscribers.length; k++) {
+                this.sendStoreUpdate(store, store.subscribers[k], store.diff);
+            }
+            store.diff = {};
+            store.hasChanges = false;
+        }
+    }
+
+    private sendStoreUpdate(store: StoreData, inbox: string, diff: { [key: string]: unknown }): void {
+        this.lookup({
+            recipient: inbox,
+            messageId: this.generateUUID(),
+            protocol: "Once",
+            data: {
+                type: "store-update",
+                store: store.name,
+                diff: diff,
+                state: store.state,
+            },
+        });
+    }
+
+    /**
+     * Sends the first reply of a pending request back to the broadcaster.
+     * Any additional replies are dropped.
+     * @param data - an `InboxReplyMessage` object
+     */
+    private routeReply(data: InboxReplyMessage): void {
+        if (this.removePendingReply(data.replyTo)) {
+            this.postResponse({
+                recipient: "broadcaster",
+                data: {
+                    type: "reply",
+                    replyTo: data.replyTo,
+                    data: data.data,
+                },
+            });
+        }
+    }
+
+    /**
+     * Removes the message ID from the pending replies array.
+     * @param messageId - the unique ID of the request message
+     * @returns - `true` when the request was still awaiting a reply
+     */
+    private removePendingReply(messageId: string): boolean {
+        for (let i = 0; i < this.pendingReplies.length; i++) {
+            if (this.pendingReplies[i] === messageId) {
+                this.pendingReplies.splice(i, 1);
+                return true;
+            }
+        }
+        return false;
+    }
+
     private handleUserDeviceInfo(data: UserDeviceInfoMessage): void {
         const { memory, isSafari } = data;
         if (memory <= 4) {
             /** Tells broadcaster to cleanup disconnected inboxes every minute on low-end devices */
             setInterval(() => {
-                // @ts-ignore
-                self.postMessage({
+                this.postResponse({
                     recipient: "broadcaster",
                     data: {
                         type: "cleanup",
@@ -114,8 +470,7 @@ class BroadcastHelper {
         } else {
             /** Tells broadcaster to cleanup disconnected inboxes every 5 minutes */
             setInterval(() => {
-                // @ts-ignore
-                self.postMessage({
+                this.postResponse({
                     recipient: "broadcaster",
                     data: {
                         type: "cleanup",
@@ -127,8 +482,7 @@ class BroadcastHelper {
         if (isSafari) {
             /** Pings broadcaster every 3 seconds on Safari due to iOS auto-terminating active workers */
             setInterval(() => {
-                // @ts-ignore
-                self.postMessage({
+                this.postResponse({
                     recipient: "broadcaster",
                     data: {
                         type: "ping",
@@ -140,43 +494,93 @@ class BroadcastHelper {
 
     /**
      * Look up the recipient(s) within the IDBDatabase.
+     * Recipients and inbox names can use `*` wildcards, see `compileTopicPattern()`.
+     * Inboxes subscribed using a wildcard pattern receive a copy of the message but they don't count as a recipient.
      * If inbox addresses are found send the array of inbox indexes to the broadcasters inbox.
      * If no recipient(s) are found check the message protocol.
      * If `UDP` the message is dropped.
      * If `TCP` the message is queued and will be reattempted at a late time.
+     * If `Durable` the message is also stored in the IDBDatabase until it's delivered, expires, or reaches it's maximum number of attempts.
+     * If the message is a request the broadcaster is told the request failed when no recipient(s) are found.
      * @param message - the `BroadcastWorkerMessage` object
      */
     private async lookup(message: BroadcastWorkerMessage) {
         const { data, protocol } = message;
         const recipient = message.recipient.trim().toLowerCase();
         try {
+            const recipientPattern = this.compileTopicPattern(recipient);
             const inboxAddressIndexes: Array<number> = [];
+            const observerAddressIndexes: Array<number> = [];
             for (let i = 0; i < this.inboxes.length; i++) {
                 const inbox = this.inboxes[i];
-                if (inbox.name === recipient) {
+                if (this.isRecipient(inbox, recipient, recipientPattern)) {
                     inboxAddressIndexes.push(inbox.address);
+                } else if (this.isObserver(inbox, recipient)) {
+                    observerAddressIndexes.push(inbox.address);
                 }
             }
 
+            /** Observers receive their copy on the first attempt, retries only look for recipients */
+            const observerCount = message?.attempts ? 0 : observerAddressIndexes.length;
+            if (observerCount) {
+                this.postResponse({
+                    type: "lookup",
+                    data: data,
+                    inboxIndexes: observerAddressIndexes,
+                    messageId: message.messageId,
+                    replyRequested: false,
+                });
+            }
+
             if (inboxAddressIndexes.length) {
-                // @ts-ignore
-                self.postMessage({
+                if (message.replyRequested) {
+                    this.pendingReplies.push(message.messageId);
+                }
+                this.postResponse({
                     type: "lookup",
                     data: data,
                     inboxIndexes: inboxAddressIndexes,
+                    messageId: message.messageId,
+                    replyRequested: message?.replyRequested ?? false,
                 });
-            } else if (protocol === "Guaranteed" && message.messageId !== null) {
-                if (message?.attempts < message.maxAttempts) {
+                this.inspectMessage(message, "routed", null, inboxAddressIndexes.length + observerCount);
+                if (message?.attempts) {
+                    this.dropMessageFromQueue(message.messageId);
+                }
+            } else if (message.replyRequested) {
+                this.inspectMessage(message, "dropped", "missing inbox");
+                this.postResponse({
+                    recipient: "broadcaster",
+                    data: {
+                        type: "reply-failed",
+                        replyTo: message.messageId,
+                    },
+                });
+            } else if ((protocol === "Guaranteed" || protocol === "Durable") && message.messageId !== null) {
+                if (protocol === "Durable" && message.expires <= Date.now()) {
+                    this.inspectMessage(message, "dropped", "expired");
+                    this.dropMessageFromQueue(message.messageId);
+                    this.sendToDeadLetterInbox(message, "expired");
+                } else if (message?.attempts < message.maxAttempts) {
                     message.attempts += 1;
+                    message.nextAttempt = Date.now() + this.getRetryDelay(message);
+                    if (protocol === "Durable") {
+                        this.updateStoredMessage(message);
+                    }
                 } else if (message?.attempts === message.maxAttempts) {
+                    this.inspectMessage(message, "dropped", "maximum attempts reached");
                     this.dropMessageFromQueue(message.messageId);
+                    this.sendToDeadLetterInbox(message, "maximum attempts reached");
                 } else {
                     message.attempts = 1;
-                    this.queuedMessages.push(message);
-                    if (this.queueTimer === null) {
-                        this.queueTimer = setTimeout(this.flushMessageQueue.bind(this), this.queueTimeout);
-                    }
+                    message.nextAttempt = Date.now() + this.getRetryDelay(message);
+                    this.inspectMessage(message, "queued");
+                    this.queueMessage(message);
                 }
+            } else if (observerCount) {
+                this.inspectMessage(message, "routed", null, observerCount);
+            } else {
+                this.inspectMessage(message, "dropped", "missing inbox");
             }
         } catch (error) {
             console.error(error);
@@ -184,25 +588,287 @@ class BroadcastHelper {
     }
 
     /**
-     * Attempts to `lookup()` any `TCP` messages that previously failed.
+     * Adds the message to the queue and starts the queue timer.
+     * `Durable` messages are also stored in the IDBDatabase.
+     * @param message - the `BroadcastWorkerMessage` object
+     */
+    private queueMessage(message: BroadcastWorkerMessage): void {
+        this.queuedMessages.push(message);
+        if (message.protocol === "Durable") {
+            this.storeMessage(message);
+        }
+        this.scheduleQueueFlush();
+    }
+
+    /**
+     * Attempts to `lookup()` any `TCP` messages that previously failed and are due for another attempt.
      */
     private flushMessageQueue(): void {
-        for (let i = 0; i < this.queuedMessages.length; i++) {
-            this.lookup(this.queuedMessages[i]);
+        const now = Date.now();
+        const messages = [...this.queuedMessages];
+        for (let i = 0; i < messages.length; i++) {
+            if ((messages[i]?.nextAttempt ?? 0) <= now) {
+                this.lookup(messages[i]);
+            }
         }
+        this.scheduleQueueFlush();
+        this.sendInspectorSnapshot();
+    }
 
-        if (this.queuedMessages.length) {
-            this.queueTimer = setTimeout(this.flushMessageQueue.bind(this), this.queueTimeout);
-        } else {
+    /**
+     * Restarts the queue timer so it fires when the next queued message is due for another attempt.
+     */
+    private scheduleQueueFlush(): void {
+        if (this.queueTimer !== null) {
+            clearTimeout(this.queueTimer);
             this.queueTimer = null;
         }
+        if (!this.queuedMessages.length) {
+            return;
+        }
+        let nextAttempt = Infinity;
+        for (let i = 0; i < this.queuedMessages.length; i++) {
+            nextAttempt = Math.min(nextAttempt, this.queuedMessages[i]?.nextAttempt ?? 0);
+        }
+        this.queueTimer = self.setTimeout(this.flushMessageQueue.bind(this), Math.max(0, nextAttempt - Date.now()));
+    }
+
+    /**
+     * Calculates how long a queued message waits before it's next attempt.
+     * `fixed` waits the same delay every time, `linear` multiplies the delay by the number of attempts, `exponential` doubles the delay after every attempt.
+     * The delay is capped by the `maxDelay`, which defaults to 5 minutes.
+     * When `jitter` is enabled a random delay between 0 and the calculated delay is used.
+     * @param message - the `BroadcastWorkerMessage` object
+     * @returns - the delay in milliseconds
+     */
+    private getRetryDelay(message: BroadcastWorkerMessage): number {
+        const retryStrategy = message?.retryStrategy ?? null;
+        const baseDelay = retryStrategy?.delay ?? this.queueTimeout;
+        let delay = baseDelay;
+        switch (retryStrategy?.strategy) {
+            case "linear":
+                delay = baseDelay * message.attempts;
+                break;
+            case "exponential":
+                delay = baseDelay * Math.pow(2, message.attempts - 1);
+                break;
+            default:
+                break;
+        }
+        delay = Math.min(delay, retryStrategy?.maxDelay ?? this.maxQueueTimeout, this.timeoutLimit);
+        if (retryStrategy?.jitter) {
+            delay = Math.random() * delay;
+        }
+        return delay;
+    }
+
+    /**
+     * Sends an undeliverable message to the `dead-letter` inbox.
+     * The dead letter is retained so inboxes hooked up later will still receive it.
+     * @param message - the `BroadcastWorkerMessage` object that was dropped
+     * @param reason - why the message was dropped
+     */
+    private sendToDeadLetterInbox(message: BroadcastWorkerMessage, reason: string): void {
+        const deadLetter: BroadcastWorkerMessage = {
+            recipient: "dead-letter",
+            messageId: this.generateUUID(),
+            protocol: "Once",
+            retain: true,
+            data: {
+                type: "dead-letter",
+                reason: reason,
+                message: {
+                    messageId: message.messageId,
+                    recipient: message.recipient,
+                    protocol: message.protocol,
+                    attempts: message.attempts,
+                    data: message.data,
+                },
+            },
+        };
+        this.retainMessage(deadLetter);
+        this.lookup(deadLetter);
+    }
+
+    /**
+     * Reports the routing of a message to the broadcasters inspector.
+     * Does nothing until the broadcaster enables inspecting.
+     * @param message - the `BroadcastWorkerMessage` object
+     * @param status - what happened to the message
+     * @param reason - why the message was dropped
+     * @param inboxCount - the number of inboxes the message was routed to
+     */
+    private inspectMessage(message: BroadcastWorkerMessage, status: InspectorEventStatus, reason: string = null, inboxCount = 0): void {
+        if (!this.inspecting) {
+            return;
+        }
+        const event: InspectorEvent = {
+            status: status,
+            messageId: message.messageId,
+            recipient: message.recipient,
+            messageType: message.data?.type ?? null,
+            protocol: message.protocol,
+            attempts: message?.attempts ?? 0,
+            inboxCount: inboxCount,
+            reason: reason,
+            timestamp: Date.now(),
+        };
+        this.postResponse({
+            recipient: "broadcaster",
+            data: {
+                type: "inspector-event",
+                event: event,
+            },
+        });
+    }
+
+    /**
+     * Sends the registered inboxes and queued messages to the broadcasters inspector.
+     * Does nothing until the broadcaster enables inspecting.
+     */
+    private sendInspectorSnapshot(): void {
+        if (!this.inspecting) {
+            return;
+        }
+        const snapshot: InspectorSnapshot = {
+            inboxes: this.inboxes.map(inbox => ({
+                name: inbox.name,
+                address: inbox.address,
+            })),
+            queuedMessages: this.queuedMessages.map(message => ({
+                messageId: message.messageId,
+                recipient: message.recipient,
+                messageType: message.data?.type ?? null,
+                protocol: message.protocol,
+                attempts: message.attempts,
+                maxAttempts: message.maxAttempts,
+            })),
+        };
+        this.postResponse({
+            recipient: "broadcaster",
+            data: {
+                type: "inspector-snapshot",
+                snapshot: snapshot,
+            },
+        });
     }
 
     /**
-     * Drops a queued message when the message has reached it's maximum number of attempts.
+     * Drops a queued message when the message has been delivered or has reached it's maximum number of attempts.
      * @param messageId - the `uid` of the message that needs to be dropped.
      */
     private dropMessageFromQueue(messageId: string): void {
+        for (let i = 0; i < this.queuedMessages.length; i++) {
+            if (this.queuedMessages[i].messageId === messageId) {
+                if (this.queuedMessages[i].protocol === "Durable") {
+                    this.deleteStoredMessage(messageId);
+                }
+                this.queuedMessages.splice(i, 1);
+                break;
+            }
+        }
+    }
+
+    /**
+     * Checks if a message is waiting in the message queue.
+     * @param messageId - the `uid` of the message
+     */
+    private isQueued(messageId: string): boolean {
+        for (let i = 0; i < this.queuedMessages.length; i++) {
+            if (this.queuedMessages[i].messageId === messageId) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Opens the IDBDatabase used to store `Durable` messages.
+     * Resolves with `null` when IndexedDB isn't available.
+     */
+    private openDatabase(): Promise<IDBDatabase> {
+        return new Promise(resolve => {
+            if (!("indexedDB" in self)) {
+                resolve(null);
+                return;
+            }
+            const request = indexedDB.open("djinnjs-broadcaster", 1);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore("messages", { keyPath: "messageId" });
+            };
+            request.onsuccess = () => {
+                resolve(request.result);
+            };
+            request.onerror = () => {
+                console.error(request.error);
+                resolve(null);
+            };
+        });
+    }
+
+    /**
+     * Stores a `Durable` message in the IDBDatabase and leases it to this worker.
+     * @param message - the `BroadcastWorkerMessage` object
+     */
+    private storeMessage(message: BroadcastWorkerMessage): void {
+        this.database.then(db => {
+            if (db === null) {
+                return;
+            }
+            const storedMessage: StoredMessage = {
+                ...message,
+                owner: this.workerId,
+                leaseExpires: Date.now() + this.leaseDuration,
+            };
+            db.transaction("messages", "readwrite")
+                .objectStore("messages")
+                .put(storedMessage);
+        });
+    }
+
+    /**
+     * Updates a stored `Durable` message and renews it's lease.
+     * Messages that were delivered or claimed by another tab are removed from the queue instead of being stored again.
+     * @param message - the `BroadcastWorkerMessage` object
+     */
+    private updateStoredMessage(message: BroadcastWorkerMessage): void {
+        this.database.then(db => {
+            if (db === null) {
+                return;
+            }
+            const store = db.transaction("messages", "readwrite").objectStore("messages");
+            const request = store.get(message.messageId);
+            request.onsuccess = () => {
+                const storedMessage: StoredMessage = request.result ?? null;
+                if (storedMessage?.owner !== this.workerId) {
+                    this.releaseMessage(message.messageId);
+                    return;
+                }
+                store.put({
+                    ...message,
+                    owner: this.workerId,
+                    leaseExpires: Date.now() + this.leaseDuration,
+                });
+            };
+        });
+    }
+
+    /**
+     * Renews the lease of every queued `Durable` message so other tabs don't replay them.
+     */
+    private renewLeases(): void {
+        for (let i = 0; i < this.queuedMessages.length; i++) {
+            if (this.queuedMessages[i].protocol === "Durable") {
+                this.updateStoredMessage(this.queuedMessages[i]);
+            }
+        }
+    }
+
+    /**
+     * Removes a message from the queue without removing it from the IDBDatabase.
+     * @param messageId - the `uid` of the message that needs to be released.
+     */
+    private releaseMessage(messageId: string): void {
         for (let i = 0; i < this.queuedMessages.length; i++) {
             if (this.queuedMessages[i].messageId === messageId) {
                 this.queuedMessages.splice(i, 1);
@@ -211,26 +877,134 @@ class BroadcastHelper {
         }
     }
 
+    /**
+     * Removes a `Durable` message from the IDBDatabase.
+     * @param messageId - the `uid` of the message that needs to be removed.
+     */
+    private deleteStoredMessage(messageId: string): void {
+        this.database.then(db => {
+            if (db === null) {
+                return;
+            }
+            db.transaction("messages", "readwrite")
+                .objectStore("messages")
+                .delete(messageId);
+        });
+    }
+
+    /**
+     * Queues any `Durable` messages that were not delivered before the previous page was unloaded.
+     * Messages leased to the worker of another open tab are skipped, messages with an expired lease are claimed by this worker within a single transaction so only one tab replays them.
+     * Called periodically since the lease of the previous page only expires after it was unloaded.
+     * Expired messages are removed from the IDBDatabase.
+     */
+    private replayStoredMessages(): void {
+        this.database.then(db => {
+            if (db === null) {
+                return;
+            }
+            const transaction = db.transaction("messages", "readwrite");
+            const store = transaction.objectStore("messages");
+            const claimedMessages: Array<StoredMessage> = [];
+            const request = store.getAll();
+            request.onsuccess = () => {
+                const messages: Array<StoredMessage> = request.result;
+                const now = Date.now();
+                for (let i = 0; i < messages.length; i++) {
+                    if (messages[i].expires <= now) {
+                        store.delete(messages[i].messageId);
+                    } else if ((messages[i]?.leaseExpires ?? 0) <= now && !this.isQueued(messages[i].messageId)) {
+                        messages[i].owner = this.workerId;
+                        messages[i].leaseExpires = now + this.leaseDuration;
+                        store.put(messages[i]);
+                        claimedMessages.push(messages[i]);
+                    }
+                }
+            };
+            transaction.oncomplete = () => {
+                for (let i = 0; i < claimedMessages.length; i++) {
+                    if (!this.isQueued(claimedMessages[i].messageId)) {
+                        this.queueMessage(claimedMessages[i]);
+                    }
+                }
+            };
+        });
+    }
+
+    /**
+     * Sends the versioned response to the broadcaster.
+     * @param response - the `BroadcastWorkerResponse` object
+     */
+    private postResponse(response: BroadcastWorkerResponse): void {
+        ((self as unknown) as WorkerScope<BroadcastWorkerResponse>).postMessage({ ...response, version: this.protocolVersion });
+    }
+
     /**
      * Worker received a message from another thread.
      * This method is an alias of `self.onmessage`
      * */
     private handleMessage(e: MessageEvent) {
+        if (e.data?.version !== this.protocolVersion) {
+            this.postResponse({
+                type: "version-mismatch",
+                received: e.data?.version ?? null,
+            });
+            return;
+        }
         const { recipient, data } = e.data;
         switch (recipient) {
             case "broadcast-worker":
                 this.inbox(data);
                 break;
             case "broadcaster":
-                // @ts-ignore
-                self.postMessage(e.data);
+                this.postResponse({
+                    recipient: recipient,
+                    data: data,
+                });
                 break;
             default:
+                if (e.data?.scope === "global") {
+                    this.broadcastToTabs(e.data);
+                }
+                if (e.data?.retain) {
+                    this.retainMessage(e.data);
+                }
                 this.lookup(e.data);
                 break;
         }
     }
 
+    /**
+     * Sends a copy of the message to the broadcast workers running in the other tabs.
+     * The copy is scoped to `local` so the receiving workers don't send it back.
+     * @param message - the `BroadcastWorkerMessage` object
+     */
+    private broadcastToTabs(message: BroadcastWorkerMessage): void {
+        if (this.channel === null) {
+            return;
+        }
+        const tabMessage: VersionedMessage<BroadcastWorkerMessage> = { ...message, scope: "local", version: this.protocolVersion };
+        this.channel.postMessage(tabMessage);
+    }
+
+    /**
+     * Worker received a `global` message from another tab.
+     * Messages from tabs running a different protocol version are dropped.
+     * This method is an alias of `this.channel.onmessage`
+     */
+    private handleChannelMessage(e: MessageEvent) {
+        if (e.data?.version !== this.protocolVersion) {
+            this.inspectMessage(e.data, "dropped", "protocol version mismatch");
+            return;
+        }
+        /** Only the sending tab stores a `Durable` message, the copies of the other tabs are queued as `Guaranteed` messages so they don't take over its stored record */
+        const message: BroadcastWorkerMessage = e.data.protocol === "Durable" ? { ...e.data, protocol: "Guaranteed" } : e.data;
+        if (message?.retain) {
+            this.retainMessage(message);
+        }
+        this.lookup(message);
+    }
+
     /**
      * Quick and dirty unique ID generation.
      * This method does not follow RFC 4122 and does not guarantee a universally unique ID.
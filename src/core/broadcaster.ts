@@ -4,19 +4,103 @@ type MessageData = {
     [key: string]: any;
 };
 
+/**
+ * Maps inbox names to the messages they accept.
+ * Extend this interface using declaration merging to type check the recipients and payloads of `message()` and `request()` calls.
+ * @example
+ * declare module "djinnjs/broadcaster" {
+ *     interface InboxMessages {
+ *         cart: { type: "add"; productId: string } | { type: "clear" };
+ *     }
+ * }
+ */
+// eslint-disable-next-line
+export interface InboxMessages {}
+
+/**
+ * The message type accepted by the recipient, falls back to `MessageData` for undeclared recipients.
+ */
+export type InboxMessage<TRecipient extends string> = TRecipient extends keyof InboxMessages ? InboxMessages[TRecipient] : MessageData;
+
 import { uuid, debug } from "./env";
 import { djinnjsOutDir } from "./config";
+import { versionMessage, checkWorkerVersion, versionMismatchNotice, WorkerVersionMismatchNotice } from "./worker-protocol";
 
 type Inbox = {
+    name: string;
     callback: Function;
     disconnected?: boolean;
     uid: string;
 };
 
+type PendingRequest = {
+    messageId: string;
+    recipient: string;
+    resolve: Function;
+    reject: Function;
+    timer: number;
+};
+
+export type MessageScope = "local" | "global";
+
+export type MessageProtocol = "Once" | "Guaranteed" | "Durable";
+
+export type RetryStrategy = {
+    strategy: "fixed" | "linear" | "exponential";
+    delay?: number;
+    maxDelay?: number;
+    jitter?: boolean;
+};
+
+export type ReplyCallback = (data: MessageData) => void;
+
+type RequestOptions = {
+    timeout?: number;
+};
+
+type MessageOptions = {
+    maxAttempts?: number;
+    scope?: MessageScope;
+    ttl?: number;
+    retain?: boolean;
+    retryStrategy?: RetryStrategy;
+};
+
+/**
+ * Thrown when a `request()` does not receive a reply before the timeout expires.
+ */
+export class RequestTimeoutError extends Error {
+    public recipient: string;
+    public timeout: number;
+
+    constructor(recipient: string, timeout: number) {
+        super(`Request to the ${recipient} inbox timed out after ${timeout}ms.`);
+        this.name = "RequestTimeoutError";
+        this.recipient = recipient;
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * Thrown when a `request()` is sent to a recipient without any registered inboxes.
+ */
+export class MissingInboxError extends Error {
+    public recipient: string;
+
+    constructor(recipient: string) {
+        super(`Request failed, the ${recipient} inbox does not exist.`);
+        this.name = "MissingInboxError";
+        this.recipient = recipient;
+    }
+}
+
 class Broadcaster {
     private worker: Worker;
     private inboxes: Array<Inbox>;
     private messageQueue: Array<BroadcastWorkerMessage>;
+    private pendingRequests: Array<PendingRequest>;
+    private inspector: Function;
+    private versionMismatch: WorkerVersionMismatchNotice;
     private state: {
         allowMessaging: boolean;
     };
@@ -26,6 +110,9 @@ class Broadcaster {
         this.worker.onmessage = this.handleMessage.bind(this);
         this.inboxes = [];
         this.messageQueue = [];
+        this.pendingRequests = [];
+        this.inspector = null;
+        this.versionMismatch = null;
         this.state = {
             allowMessaging: false,
         };
@@ -38,32 +125,54 @@ class Broadcaster {
         this.state.allowMessaging = true;
         if (this.messageQueue.length) {
             for (let i = 0; i < this.messageQueue.length; i++) {
-                this.worker.postMessage(this.messageQueue[i]);
+                this.worker.postMessage(versionMessage(this.messageQueue[i]));
             }
         }
         this.messageQueue = [];
     }
 
-    private sendDataToInboxes(inboxIndexes: Array<number>, data: MessageData): void {
+    private sendDataToInboxes(inboxIndexes: Array<number>, data: MessageData, replyTo: string = null): void {
+        const reply: ReplyCallback = replyTo ? (replyData: MessageData) => this.reply(replyTo, replyData) : null;
         for (let i = 0; i < inboxIndexes.length; i++) {
             try {
-                this.inboxes[inboxIndexes[i]].callback(data);
+                this.inboxes[inboxIndexes[i]].callback(data, reply);
             } catch (error) {
                 this.disconnectInbox(this.inboxes[inboxIndexes[i]], inboxIndexes[i]);
             }
         }
     }
 
+    /**
+     * Delivers the `worker-version-mismatch` message directly to the `runtime` inboxes of this tab since the mismatched broadcast worker can't route it.
+     * The message is kept so `runtime` inboxes that are hooked up later still receive it.
+     * @param worker - the name of the mismatched worker
+     * @param received - the protocol version used by the worker
+     */
+    private deliverVersionMismatch(worker: string, received: number): void {
+        this.versionMismatch = versionMismatchNotice(worker, received);
+        for (let i = 0; i < this.inboxes.length; i++) {
+            if (this.inboxes[i].name === "runtime") {
+                this.sendDataToInboxes([i], this.versionMismatch);
+            }
+        }
+    }
+
     /**
      * Broadcaster received a message from another thread.
+     * Messages using a different protocol version are ignored and reported to the `runtime` inbox.
      * This method is an alias of `this.worker.onmessage`
      */
     private handleMessage(e: MessageEvent): void {
-        const data = e.data;
-        if (data.recipient?.trim().toLowerCase() === "broadcaster") {
-            this.inbox(data.data);
-        } else {
-            this.sendDataToInboxes(data.inboxIndexes, data.data);
+        const response: VersionedMessage<BroadcastWorkerResponse> = e.data;
+        if (!checkWorkerVersion("broadcast-worker", response, this.deliverVersionMismatch.bind(this))) {
+            return;
+        }
+        if ("recipient" in response) {
+            if (response.recipient.trim().toLowerCase() === "broadcaster") {
+                this.inbox(response.data);
+            }
+        } else if (response.type === "lookup") {
+            this.sendDataToInboxes(response.inboxIndexes, response.data, response.replyRequested ? response.messageId : null);
         }
     }
 
@@ -99,6 +208,18 @@ class Broadcaster {
                 break;
             case "ping":
                 break;
+            case "reply":
+                this.resolveRequest(data.replyTo, data.data);
+                break;
+            case "reply-failed":
+                this.rejectRequest(data.replyTo);
+                break;
+            case "inspector-event":
+            case "inspector-snapshot":
+                if (this.inspector) {
+                    this.inspector(data);
+                }
+                break;
             default:
                 if (debug) {
                     console.warn(`Unknown broadcaster message type: ${data.type}`);
@@ -109,37 +230,164 @@ class Broadcaster {
 
     /**
      * Sends a message to an inbox.
-     * @param recipient - the name of the inboxes you want to send a message to
+     * @param recipient - the name of the inboxes you want to send a message to, use a `*` wildcard to message a group of inboxes such as `cart.*`
      * @param data - the `MessageData` object that will be sent to the inboxes
-     * @param protocol - `Once` will attempt to send the message but will not guarantee it arrives, `Guaranteed` will attempt to deliver the message until the `maxAttempts` have been exceeded
-     * @param maxAttempts - the maximum number of attempts before the `Guaranteed` message is dropped, can be set to `Infinity`
+     * @param protocol - `Once` will attempt to send the message but will not guarantee it arrives, `Guaranteed` will attempt to deliver the message until the `maxAttempts` have been exceeded, `Durable` is `Guaranteed` but undelivered messages are stored in IndexedDB and replayed after the next page load
+     * @param options - `maxAttempts` is the maximum number of attempts before the `Guaranteed` or `Durable` message is sent to the `dead-letter` inbox, defaults to `100` and can be set to `Infinity`.
+     * `scope` is `local` to only deliver the message to inboxes in this tab or `global` to deliver the message to inboxes in every open tab of the origin, defaults to `local`.
+     * `ttl` is the number of milliseconds a `Durable` message will be stored before it's dropped, defaults to 24 hours.
+     * When `retain` is `true` the broadcast worker keeps the message and replays it to inboxes that are hooked up later.
+     * `retryStrategy` is how long a `Guaranteed` or `Durable` message waits between attempts, defaults to a fixed 1000ms delay.
+     * A number is treated as the `maxAttempts` setting to support the previous `message(recipient, data, protocol, maxAttempts)` signature.
      */
-    public message(recipient: string, data: MessageData, protocol: "Once" | "Guaranteed" = "Once", maxAttempts = 100): void {
+    public message<TRecipient extends string = string>(
+        recipient: TRecipient,
+        data: InboxMessage<TRecipient>,
+        protocol: MessageProtocol = "Once",
+        options: MessageOptions | number = {}
+    ): void {
+        if (typeof options === "number") {
+            if (debug) {
+                console.warn(`Passing maxAttempts as a number to broadcaster.message() is deprecated, use the { maxAttempts: ${options} } options object instead.`);
+            }
+            options = { maxAttempts: options };
+        }
         const workerMessage: BroadcastWorkerMessage = {
             recipient: recipient,
             data: data,
             messageId: uuid(),
             protocol: protocol,
+            scope: options?.scope ?? "local",
         };
-        if (protocol === "Guaranteed") {
-            workerMessage.maxAttempts = maxAttempts;
+        if (protocol === "Guaranteed" || protocol === "Durable") {
+            workerMessage.maxAttempts = options?.maxAttempts ?? 100;
+            if (options?.retryStrategy) {
+                workerMessage.retryStrategy = options.retryStrategy;
+            }
+        }
+        if (protocol === "Durable") {
+            workerMessage.expires = Date.now() + (options?.ttl ?? 86_400_000);
+        }
+        if (options?.retain) {
+            workerMessage.retain = true;
         }
         this.postMessageToWorker(workerMessage);
     }
 
+    /**
+     * Sends a message to an inbox and waits for a reply.
+     * The returned promise is resolved with the first reply sent by any of the recipient inboxes.
+     * @param recipient - the name of the inboxes you want to send a message to
+     * @param data - the `MessageData` object that will be sent to the inboxes
+     * @param options - `timeout` is the number of milliseconds to wait for a reply, can be set to `Infinity`
+     * @returns - a promise that rejects with a `RequestTimeoutError` or `MissingInboxError` when a reply can't be received
+     */
+    public request<T extends MessageData = MessageData, TRecipient extends string = string>(
+        recipient: TRecipient,
+        data: InboxMessage<TRecipient>,
+        options: RequestOptions = {}
+    ): Promise<T> {
+        return new Promise((resolve, reject) => {
+            const timeout = options?.timeout ?? 30_000;
+            const pendingRequest: PendingRequest = {
+                messageId: uuid(),
+                recipient: recipient,
+                resolve: resolve,
+                reject: reject,
+                timer: null,
+            };
+            if (timeout !== Infinity) {
+                pendingRequest.timer = window.setTimeout(() => {
+                    this.removePendingRequest(pendingRequest.messageId);
+                    this.postMessageToWorker({
+                        recipient: "broadcast-worker",
+                        messageId: null,
+                        protocol: "Once",
+                        data: {
+                            type: "cancel-request",
+                            messageId: pendingRequest.messageId,
+                        },
+                    });
+                    reject(new RequestTimeoutError(recipient, timeout));
+                }, timeout);
+            }
+            this.pendingRequests.push(pendingRequest);
+            const workerMessage: BroadcastWorkerMessage = {
+                recipient: recipient,
+                data: data,
+                messageId: pendingRequest.messageId,
+                protocol: "Once",
+                replyRequested: true,
+            };
+            this.postMessageToWorker(workerMessage);
+        });
+    }
+
+    /**
+     * Sends a reply to a pending request.
+     * @param messageId - the unique ID of the request message
+     * @param data - the `MessageData` object that will resolve the request
+     */
+    private reply(messageId: string, data: MessageData): void {
+        const workerMessage: BroadcastWorkerMessage = {
+            recipient: "broadcast-worker",
+            messageId: null,
+            protocol: "Once",
+            data: {
+                type: "reply",
+                replyTo: messageId,
+                data: data,
+            },
+        };
+        this.postMessageToWorker(workerMessage);
+    }
+
+    private resolveRequest(messageId: string, data: MessageData): void {
+        const request = this.removePendingRequest(messageId);
+        if (request) {
+            clearTimeout(request.timer);
+            request.resolve(data);
+        }
+    }
+
+    private rejectRequest(messageId: string): void {
+        const request = this.removePendingRequest(messageId);
+        if (request) {
+            clearTimeout(request.timer);
+            request.reject(new MissingInboxError(request.recipient));
+        }
+    }
+
+    /**
+     * Removes the `PendingRequest` object from the pending requests array.
+     * @param messageId - the unique ID of the request message
+     */
+    private removePendingRequest(messageId: string): PendingRequest {
+        for (let i = 0; i < this.pendingRequests.length; i++) {
+            if (this.pendingRequests[i].messageId === messageId) {
+                return this.pendingRequests.splice(i, 1)[0];
+            }
+        }
+        return null;
+    }
+
     /**
      * Register and hookup an inbox.
-     * @param name - the name of the inbox
+     * @param name - the name of the inbox, use a `*` wildcard to observe a group of inboxes such as `cart.*` or every inbox with `*`, observers receive a copy of each message but don't count as a recipient
      * @param inbox - the function that will handle the inboxes incoming messages
      * @returns - inbox unique ID
      */
     public hookup(name: string, inbox: Function): string {
         const newInbox: Inbox = {
+            name: name.trim().toLowerCase(),
             callback: inbox,
             uid: uuid(),
         };
         const address = this.inboxes.length;
         this.inboxes.push(newInbox);
+        if (this.versionMismatch !== null && newInbox.name === "runtime") {
+            this.sendDataToInboxes([address], this.versionMismatch);
+        }
         const workerMessage: BroadcastWorkerMessage = {
             recipient: "broadcast-worker",
             messageId: null,
@@ -154,13 +402,34 @@ class Broadcaster {
         return newInbox.uid;
     }
 
+    /**
+     * Streams the broadcast workers routing activity and inbox snapshots to the callback.
+     * Only available in debug builds.
+     * @param callback - the function that will receive the `inspector-event` and `inspector-snapshot` messages
+     */
+    public inspect(callback: Function): void {
+        if (!debug) {
+            return;
+        }
+        this.inspector = callback;
+        const workerMessage: BroadcastWorkerMessage = {
+            recipient: "broadcast-worker",
+            messageId: null,
+            protocol: "Once",
+            data: {
+                type: "inspect",
+            },
+        };
+        this.postMessageToWorker(workerMessage);
+    }
+
     /**
      * Sends a message to the worker using `postMessage()` or queues the message if the worker isn't ready.
      * @param message - the `BroadcastWorkerMessage` object that will be sent
      */
     private postMessageToWorker(message: BroadcastWorkerMessage): void {
         if (this.state.allowMessaging) {
-            this.worker.postMessage(message);
+            this.worker.postMessage(versionMessage(message));
         } else {
             this.messageQueue.push(message);
         }
@@ -191,7 +460,7 @@ class Broadcaster {
                 addresses: updatedAddresses,
             },
         };
-        this.worker.postMessage(workerMessage);
+        this.worker.postMessage(versionMessage(workerMessage));
     }
 
     /**
@@ -6,3 +6,5 @@ export const disablePjax = "REPLACE_WITH_PJAX_STATUS";
 export const disablePrefetching = "REPLACE_WITH_PREFETCH_STATUS";
 export const usePercentage = "REPLACE_WITH_USE_PERCENTAGE";
 export const disableServiceWorker = "REPLACE_WITH_USE_SERVICE_WORKER";
+export const loadingBudgets: { [category: string]: number } = JSON.parse("REPLACE_WITH_LOADING_BUDGETS");
+export const useAssetManifest = "REPLACE_WITH_USE_ASSET_MANIFEST";
@@ -1,135 +1,344 @@
 import { env } from "./env";
-import { djinnjsOutDir, usePercentage } from "./config";
+import { djinnjsOutDir, usePercentage, useAssetManifest } from "./config";
 
 /**
- * Appends JavaScript resources to the documents head if it hasn't already been loaded.
+ * Times the requests made by `fetchJS()` and `fetchCSS()`, see `setFetchTelemetry()`.
+ */
+export type FetchTelemetry = {
+    start: (category: "fetch", name: string) => string;
+    end: (id: string) => void;
+};
+
+/** `null` until the runtime registers the `telemetry` module */
+let fetchTelemetry: FetchTelemetry = null;
+
+/**
+ * Registers the telemetry used to time requests.
+ * The `telemetry` module isn't imported by this module since it starts the broadcast worker.
+ * @param telemetry - the `telemetry` object or `null` to stop timing requests
+ */
+export function setFetchTelemetry(telemetry: FetchTelemetry): void {
+    fetchTelemetry = telemetry;
+}
+
+/**
+ * The filenames that were loaded and the filenames that failed to load.
+ */
+export type FetchResult = {
+    loaded: Array<string>;
+    failed: Array<string>;
+};
+
+/**
+ * Waits for a resource element that was appended by a previous request to finish loading.
+ * Elements that are still loading have a `state` attribute of `loading`.
+ * @param el - the `<script>` or `<link>` element
+ * @param onLoad - called once the resource has loaded
+ * @param onError - called when the resource fails to load
+ */
+function waitForResource(el: HTMLElement, onLoad: Function, onError: Function): void {
+    if (el.getAttribute("state") === "loading") {
+        el.addEventListener("load", () => {
+            onLoad();
+        });
+        el.addEventListener("error", () => {
+            onError();
+        });
+    } else {
+        onLoad();
+    }
+}
+
+/**
+ * Rejected by `importModule()` when a module fails to load or throws while it's being evaluated.
+ */
+export class ModuleLoadError extends Error {
+    public filename: string;
+    public url: string;
+    public cause: unknown;
+
+    constructor(filename: string, url: string, cause: unknown) {
+        super(`Failed to load the ${filename} module from ${url}: ${cause}`);
+        this.name = "ModuleLoadError";
+        this.filename = filename;
+        this.url = url;
+        this.cause = cause;
+    }
+}
+
+/** Logical filenames mapped to the content hashed filenames generated by production builds */
+let assetManifest: { [filename: string]: string } = {};
+let assetManifestRequest: Promise<void> = null;
+
+/**
+ * Fetches the `asset-manifest.json` file generated by production builds.
+ * The last manifest is kept in local storage so content hashed files can be resolved while offline.
+ */
+export function loadAssetManifest(): Promise<void> {
+    if (assetManifestRequest !== null) {
+        return assetManifestRequest;
+    }
+    if (!useAssetManifest) {
+        assetManifestRequest = Promise.resolve();
+        return assetManifestRequest;
+    }
+    assetManifestRequest = fetch(`${window.location.origin}/${djinnjsOutDir}/asset-manifest.json`, {
+        cache: "no-cache",
+        credentials: "include",
+        headers: new Headers({
+            Accept: "application/json",
+        }),
+    })
+        .then(request => {
+            if (!request.ok) {
+                throw new Error(`Server responded with ${request.status}`);
+            }
+            return request.json();
+        })
+        .then(manifest => {
+            assetManifest = manifest;
+            localStorage.setItem("assetManifest", JSON.stringify(manifest));
+        })
+        .catch(() => {
+            try {
+                assetManifest = JSON.parse(localStorage.getItem("assetManifest")) ?? {};
+            } catch (error) {
+                assetManifest = {};
+            }
+        });
+    return assetManifestRequest;
+}
+
+/**
+ * Resolves a logical filename to it's URL in the DjinnJS output directory using the asset manifest.
+ * @param filename - the filename -- exclude the extension
+ * @param extension - the file extension
+ */
+function resolveAssetURL(filename: string, extension: "js" | "css"): string {
+    const logicalFilename = `${filename}.${extension}`;
+    return `${window.location.origin}/${djinnjsOutDir}/${assetManifest[logicalFilename] ?? logicalFilename}`;
+}
+
+/** Specifiers from the documents `<script type="importmap">` elements mapped to absolute URLs */
+let importMap: { [specifier: string]: string } = null;
+
+/** Module URLs mapped to the number of times they failed to load */
+const failedModules: { [url: string]: number } = {};
+
+/**
+ * Browsers cache failed dynamic imports for the lifetime of the document, modules that failed to load are requested again using a cache-busting query string.
+ * The query string isn't changed once the module loads so every later import shares the same module instance.
+ * @param url - the resolved URL of the module
+ */
+function getImportURL(url: string): string {
+    const attempts = failedModules[url] ?? 0;
+    if (attempts === 0) {
+        return url;
+    }
+    const importUrl = new URL(url, document.baseURI);
+    importUrl.searchParams.set("retry", `${attempts}`);
+    return importUrl.href;
+}
+
+/**
+ * Collects the `imports` of every import map in the document, the first import map to declare a specifier wins.
+ */
+function getImportMap(): { [specifier: string]: string } {
+    if (importMap === null) {
+        importMap = {};
+        const scripts = Array.from(document.querySelectorAll('script[type="importmap"]'));
+        for (let i = 0; i < scripts.length; i++) {
+            try {
+                const imports = JSON.parse(scripts[i].textContent)?.imports ?? {};
+                for (const specifier in imports) {
+                    if (importMap[specifier] === undefined) {
+                        importMap[specifier] = new URL(imports[specifier], document.baseURI).href;
+                    }
+                }
+            } catch (error) {
+                if (env.isDebug) {
+                    console.error(`Failed to parse the import map: ${error}`);
+                }
+            }
+        }
+    }
+    return importMap;
+}
+
+/**
+ * Resolves a JavaScript filename to it's URL using the documents import maps.
+ * Filenames missing from the import maps are resolved using the asset manifest, call `loadAssetManifest()` first.
+ * @param filename - the JS filename or a URL -- exclude the extension
+ */
+export function resolveModuleURL(filename: string): string {
+    if (new RegExp(/^(http)/i).test(filename)) {
+        return `${filename}.js`;
+    }
+    const imports = getImportMap();
+    return imports[filename] ?? imports[`${filename}.js`] ?? resolveAssetURL(filename, "js");
+}
+
+/**
+ * Loads a JavaScript module using a dynamic import.
+ * Modules that previously failed to load are imported using a cache-busting query string.
+ * @param filename - the JS filename or a URL -- exclude the extension
+ * @returns - the module namespace, rejects with a `ModuleLoadError`
+ */
+export function importModule<TModule = unknown>(filename: string): Promise<TModule> {
+    filename = filename.replace(/(\.js)$/gi, "");
+    return loadAssetManifest().then(() => {
+        const url = resolveModuleURL(filename);
+        const importUrl = getImportURL(url);
+        return import(importUrl).then(
+            (module: TModule) => module,
+            error => {
+                failedModules[url] = (failedModules[url] ?? 0) + 1;
+                throw new ModuleLoadError(filename, importUrl, error);
+            }
+        );
+    });
+}
+
+/**
+ * Loads JavaScript modules using `importModule()`.
  * @param filenames - a filename `sting` or an array of `string` JS filenames or a URL -- exclude the extension
+ * @returns - a `FetchResult` object, the promise always resolves
  */
-export function fetchJS(filenames: string | Array<string>): Promise<{}> {
+export function fetchJS(filenames: string | Array<string>): Promise<FetchResult> {
     return new Promise(resolve => {
         const ticket = env.startLoading();
         const resourceList = filenames instanceof Array ? filenames : [filenames];
+        const result: FetchResult = {
+            loaded: [],
+            failed: [],
+        };
         if (resourceList.length === 0) {
             env.stopLoading(ticket);
-            resolve();
+            resolve(result);
+            return;
         }
+        const timing = fetchTelemetry?.start("fetch", `fetchJS ${resourceList.join(" ")}`);
+
+        let settled = 0;
+        const settle = (filename: string, failed: boolean) => {
+            settled++;
+            if (failed) {
+                result.failed.push(filename);
+            } else {
+                result.loaded.push(filename);
+            }
+            if (settled === resourceList.length) {
+                env.stopLoading(ticket);
+                fetchTelemetry?.end(timing);
+                resolve(result);
+            }
+        };
 
-        let loaded = 0;
         for (let i = 0; i < resourceList.length; i++) {
             const filename = resourceList[i].replace(/(\.js)$/gi, "");
-            const isUrl = new RegExp(/^(http)/i).test(filename);
-            let el: HTMLScriptElement = document.head.querySelector(`script[file="${filename}.js"]`) || document.head.querySelector(`script[src="${filename}"]`) || null;
-            if (!el) {
-                el = document.createElement("script");
-                if (!isUrl) {
-                    el.setAttribute("file", `${filename}.js`);
-                }
-                el.type = "module";
-                if (!isUrl) {
-                    el.src = `${window.location.origin}/${djinnjsOutDir}/${filename}.js`;
-                } else {
-                    el.src = `${filename}.js`;
-                }
-                el.addEventListener("load", () => {
-                    loaded++;
-                    if (loaded === resourceList.length) {
-                        env.stopLoading(ticket);
-                        resolve();
+            importModule(filename)
+                .then(() => {
+                    settle(filename, false);
+                })
+                .catch(error => {
+                    if (env.isDebug) {
+                        console.error(error);
                     }
+                    settle(filename, true);
                 });
-                el.addEventListener("error", () => {
-                    loaded++;
-                    if (loaded === resourceList.length) {
-                        env.stopLoading(ticket);
-                        resolve();
-                    }
-                });
-                document.head.append(el);
-            } else {
-                loaded++;
-                if (loaded === resourceList.length) {
-                    env.stopLoading(ticket);
-                    resolve();
-                }
-            }
         }
     });
 }
 
 /**
  * Appends resources to the documents head if it hasn't already been loaded.
+ * Stylesheets that fail to load are removed from the documents head so they can be requested again.
+ * Stylesheets listed in the `inlined-css` attribute of a `<style>` element are treated as loaded.
  * @param filenames - a filename `sting` or an array of `string` CSS filenames or a URL -- exclude the extension
+ * @returns - a `FetchResult` object, the promise always resolves
  */
-export function fetchCSS(filenames: string | Array<string>): Promise<{}> {
+export function fetchCSS(filenames: string | Array<string>): Promise<FetchResult> {
     return new Promise(resolve => {
         const ticket = env.startLoading();
         const resourceList = filenames instanceof Array ? filenames : [filenames];
+        const result: FetchResult = {
+            loaded: [],
+            failed: [],
+        };
         if (resourceList.length === 0) {
             env.stopLoading(ticket);
-            resolve();
+            resolve(result);
+            return;
         }
+        const timing = fetchTelemetry?.start("fetch", `fetchCSS ${resourceList.join(" ")}`);
 
         const loadingMessage = document.body.querySelector("djinnjs-file-loading-value") || null;
 
-        let loaded = 0;
-        for (let i = 0; i < resourceList.length; i++) {
-            const filename = resourceList[i].replace(/(\.css)$/gi, "");
-            const isUrl = new RegExp(/^(http)/gi).test(filename);
-            let el: HTMLLinkElement = document.head.querySelector(`link[file="${filename}.css"]`) || document.head.querySelector(`link[href="${filename}"]`) || null;
-            if (!el) {
-                el = document.createElement("link");
-                if (!isUrl) {
-                    el.setAttribute("file", `${filename}.css`);
-                }
-                el.rel = "stylesheet";
-                if (!isUrl) {
-                    el.href = `${window.location.origin}/${djinnjsOutDir}/${filename}.css`;
+        let settled = 0;
+        const settle = (filename: string, failed: boolean) => {
+            settled++;
+            if (failed) {
+                result.failed.push(filename);
+            } else {
+                result.loaded.push(filename);
+            }
+            if (env.domState === "hard-loading" && loadingMessage) {
+                if (usePercentage) {
+                    loadingMessage.innerHTML = `${Math.round((settled / resourceList.length) * 100)}%`;
                 } else {
-                    el.href = `${filename}.css`;
+                    loadingMessage.innerHTML = `${settled}/${resourceList.length}`;
                 }
-                el.addEventListener("load", () => {
-                    loaded++;
-                    if (env.domState === "hard-loading" && loadingMessage) {
-                        if (usePercentage) {
-                            loadingMessage.innerHTML = `${Math.round((loaded / resourceList.length) * 100)}%`;
-                        } else {
-                            loadingMessage.innerHTML = `${loaded}/${resourceList.length}`;
-                        }
-                    }
-                    if (loaded === resourceList.length) {
-                        env.stopLoading(ticket);
-                        resolve();
-                    }
-                });
-                el.addEventListener("error", () => {
-                    loaded++;
-                    if (env.domState === "hard-loading" && loadingMessage) {
-                        if (usePercentage) {
-                            loadingMessage.innerHTML = `${Math.round((loaded / resourceList.length) * 100)}%`;
-                        } else {
-                            loadingMessage.innerHTML = `${loaded}/${resourceList.length}`;
-                        }
-                    }
-                    if (loaded === resourceList.length) {
-                        env.stopLoading(ticket);
-                        resolve();
+            }
+            if (settled === resourceList.length) {
+                env.stopLoading(ticket);
+                fetchTelemetry?.end(timing);
+                resolve(result);
+            }
+        };
+
+        loadAssetManifest().then(() => {
+            for (let i = 0; i < resourceList.length; i++) {
+                const filename = resourceList[i].replace(/(\.css)$/gi, "");
+                const isUrl = new RegExp(/^(http)/gi).test(filename);
+                /** Stylesheets inlined by the critical CSS snippet don't need to be fetched */
+                if (!isUrl && document.querySelector(`style[inlined-css~="${filename}"]`)) {
+                    settle(filename, false);
+                    continue;
+                }
+                let el: HTMLLinkElement = document.head.querySelector(`link[file="${filename}.css"]`) || document.head.querySelector(`link[href="${filename}"]`) || null;
+                if (!el) {
+                    el = document.createElement("link");
+                    if (!isUrl) {
+                        el.setAttribute("file", `${filename}.css`);
                     }
-                });
-                document.head.append(el);
-            } else {
-                loaded++;
-                if (env.domState === "hard-loading" && loadingMessage) {
-                    if (usePercentage) {
-                        loadingMessage.innerHTML = `${Math.round((loaded / resourceList.length) * 100)}%`;
+                    el.setAttribute("state", "loading");
+                    el.rel = "stylesheet";
+                    if (!isUrl) {
+                        el.href = resolveAssetURL(filename, "css");
                     } else {
-                        loadingMessage.innerHTML = `${loaded}/${resourceList.length}`;
+                        el.href = `${filename}.css`;
                     }
-                }
-                if (loaded === resourceList.length) {
-                    env.stopLoading(ticket);
-                    resolve();
+                    el.addEventListener("load", () => {
+                        el.setAttribute("state", "loaded");
+                        settle(filename, false);
+                    });
+                    el.addEventListener("error", () => {
+                        el.remove();
+                        settle(filename, true);
+                    });
+                    document.head.append(el);
+                } else {
+                    waitForResource(
+                        el,
+                        () => {
+                            settle(filename, false);
+                        },
+                        () => {
+                            settle(filename, true);
+                        }
+                    );
                 }
             }
-        }
+        });
     });
 }
@@ -0,0 +1,245 @@
+export type ParsedTag = {
+    name: string;
+    attributes: { [name: string]: string };
+};
+
+export type ParsedResources = {
+    eagerCSS: Array<string>;
+    lazyCSS: Array<string>;
+    eagerJS: Array<string>;
+    lazyJS: Array<string>;
+    eagerComponents: Array<string>;
+};
+
+/** Elements that only contain text, tags inside of them are never parsed */
+const rawTextElements = ["script", "style", "textarea", "title", "noscript", "iframe", "noembed", "noframes", "xmp", "plaintext"];
+
+function isWhitespace(char: string): boolean {
+    return char === " " || char === "\n" || char === "\t" || char === "\r" || char === "\f";
+}
+
+/**
+ * Decodes the character references that can appear in attribute values.
+ * @param value - the raw attribute value
+ */
+function decodeAttributeValue(value: string): string {
+    if (value.indexOf("&") === -1) {
+        return value;
+    }
+    return value.replace(/&(#x[0-9a-f]+|#[0-9]+|amp|quot|apos|lt|gt);/gi, (entity: string, reference: string) => {
+        switch (reference.toLowerCase()) {
+            case "amp":
+                return "&";
+            case "quot":
+                return '"';
+            case "apos":
+                return "'";
+            case "lt":
+                return "<";
+            case "gt":
+                return ">";
+            default:
+                const codePoint = reference[1] === "x" || reference[1] === "X" ? parseInt(reference.slice(2), 16) : parseInt(reference.slice(1), 10);
+                return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+        }
+    });
+}
+
+/**
+ * Steps through the HTML one tag at a time, yielding each start tag and it's attributes.
+ * Comments, doctypes, end tags, and the content of raw text elements such as `<script>` are skipped.
+ * Attribute names are lowercased and only the first occurrence of an attribute is kept.
+ * @param body - the HTML to be tokenized
+ */
+export function* tokenizeHTML(body: string): Generator<ParsedTag> {
+    const length = body.length;
+    let i = 0;
+    while (i < length) {
+        const tagStart = body.indexOf("<", i);
+        if (tagStart === -1) {
+            return;
+        }
+        i = tagStart + 1;
+
+        /** Comments, including the abruptly closed `<!-->` and `<!--->` */
+        if (body.startsWith("!--", i)) {
+            const commentEnd = body.indexOf("-->", i + 1);
+            i = commentEnd === -1 ? length : commentEnd + 3;
+            continue;
+        }
+
+        /** Doctypes, CDATA sections, processing instructions, and end tags */
+        if (body[i] === "!" || body[i] === "?" || body[i] === "/") {
+            const end = body.indexOf(">", i);
+            i = end === -1 ? length : end + 1;
+            continue;
+        }
+
+        /** A `<` that doesn't start a tag is text */
+        if (!/[a-z]/i.test(body[i] ?? "")) {
+            continue;
+        }
+
+        let nameEnd = i;
+        while (nameEnd < length && !isWhitespace(body[nameEnd]) && body[nameEnd] !== "/" && body[nameEnd] !== ">") {
+            nameEnd++;
+        }
+        const tag: ParsedTag = {
+            name: body.slice(i, nameEnd).toLowerCase(),
+            attributes: {},
+        };
+        i = nameEnd;
+
+        let closed = false;
+        while (i < length) {
+            const char = body[i];
+            if (char === ">") {
+                closed = true;
+                i++;
+                break;
+            }
+            if (isWhitespace(char) || char === "/") {
+                i++;
+                continue;
+            }
+
+            /** The first character of an attribute name can be an `=` */
+            let attributeEnd = i + 1;
+            while (attributeEnd < length && !isWhitespace(body[attributeEnd]) && body[attributeEnd] !== "/" && body[attributeEnd] !== ">" && body[attributeEnd] !== "=") {
+                attributeEnd++;
+            }
+            const attributeName = body.slice(i, attributeEnd).toLowerCase();
+            i = attributeEnd;
+            while (i < length && isWhitespace(body[i])) {
+                i++;
+            }
+
+            let value = "";
+            if (body[i] === "=") {
+                i++;
+                while (i < length && isWhitespace(body[i])) {
+                    i++;
+                }
+                const quote = body[i];
+                if (quote === '"' || quote === "'") {
+                    const valueEnd = body.indexOf(quote, i + 1);
+                    const end = valueEnd === -1 ? length : valueEnd;
+                    value = body.slice(i + 1, end);
+                    i = end + 1;
+                } else {
+                    let valueEnd = i;
+                    while (valueEnd < length && !isWhitespace(body[valueEnd]) && body[valueEnd] !== ">") {
+                        valueEnd++;
+                    }
+                    value = body.slice(i, valueEnd);
+                    i = valueEnd;
+                }
+            }
+
+            if (!Object.prototype.hasOwnProperty.call(tag.attributes, attributeName)) {
+                tag.attributes[attributeName] = decodeAttributeValue(value);
+            }
+        }
+
+        /** Tags that are still open at the end of the body are dropped */
+        if (!closed) {
+            return;
+        }
+
+        yield tag;
+
+        if (rawTextElements.includes(tag.name)) {
+            const endTag = new RegExp(`</${tag.name}[\\s/>]`, "gi");
+            endTag.lastIndex = i;
+            const match = endTag.exec(body);
+            i = match === null ? length : match.index;
+        }
+    }
+}
+
+/**
+ * Splits an attribute value into file names and adds any new file names to the list.
+ * @param value - the attribute value, `undefined` when the tag doesn't have the attribute
+ * @param extensions - matches the file extensions that will be removed
+ * @param files - the list of unique file names
+ */
+function collectFilenames(value: string | undefined, extensions: RegExp, files: Array<string>): void {
+    if (value === undefined) {
+        return;
+    }
+    const filenames = value.trim().split(/\s+/g);
+    for (let i = 0; i < filenames.length; i++) {
+        const cleanFilename = filenames[i].toLowerCase().replace(extensions, "");
+        if (cleanFilename !== "" && !files.includes(cleanFilename)) {
+            files.push(cleanFilename);
+        }
+    }
+}
+
+/**
+ * Parses HTML and collects all requested CSS and JS files along with the web components that will be eagerly loaded.
+ * Lazy loaded files that are also eager loaded are only listed as eager.
+ * @param body - the body text to be parsed
+ */
+export function parseResources(body: string): ParsedResources {
+    const resources: ParsedResources = {
+        eagerCSS: [],
+        lazyCSS: [],
+        eagerJS: [],
+        lazyJS: [],
+        eagerComponents: [],
+    };
+    for (const tag of tokenizeHTML(body)) {
+        const { attributes } = tag;
+        collectFilenames(attributes["eager-load-css"], /(\.css)$|(\.scss)$/g, resources.eagerCSS);
+        collectFilenames(attributes["lazy-load-css"], /(\.css)$|(\.scss)$/g, resources.lazyCSS);
+        collectFilenames(attributes["eager-load-js"], /(\.js)$|(\.ts)$/g, resources.eagerJS);
+        collectFilenames(attributes["lazy-load-js"], /(\.js)$|(\.ts)$/g, resources.lazyJS);
+        if (attributes["web-component"] !== undefined && attributes["loading"] !== undefined) {
+            const strategies = attributes["loading"]
+                .trim()
+                .toLowerCase()
+                .split(/\s+/g);
+            if (strategies.includes("eager") && !resources.eagerComponents.includes(tag.name)) {
+                resources.eagerComponents.push(tag.name);
+            }
+        }
+    }
+    resources.lazyCSS = resources.lazyCSS.filter(filename => !resources.eagerCSS.includes(filename));
+    resources.lazyJS = resources.lazyJS.filter(filename => !resources.eagerJS.includes(filename));
+    return resources;
+}
+
+/**
+ * Parses the body of a request from the Runtime class and builds the response.
+ * @param request - the `RuntimeWorkerRequest` object
+ */
+export function parseRuntimeRequest(request: RuntimeWorkerRequest): RuntimeWorkerResponse {
+    const resources = parseResources(request.body);
+    switch (request.type) {
+        case "eager":
+            return {
+                type: "eager",
+                files: resources.eagerCSS,
+                scripts: resources.eagerJS,
+            };
+        case "lazy":
+            return {
+                type: "lazy",
+                files: resources.lazyCSS,
+                scripts: resources.lazyJS,
+            };
+        case "parse":
+            return {
+                type: "parse",
+                pjaxFiles: {
+                    eager: resources.eagerCSS,
+                    lazy: resources.lazyCSS,
+                    eagerScripts: resources.eagerJS,
+                    lazyScripts: resources.lazyJS,
+                    eagerComponents: resources.eagerComponents,
+                },
+                requestUid: request.requestUid,
+            };
+    }
+}
@@ -0,0 +1,137 @@
+import { broadcaster } from "./broadcaster";
+import { env } from "./env";
+import { fetchCSS } from "./fetch";
+
+/**
+ * Debug-only view of the broadcast worker.
+ * Lists the registered inboxes and queued messages, streams routed and dropped messages, and sends test messages.
+ */
+class Inspector extends HTMLElement {
+    private messageLimit = 100;
+    private inboxList: HTMLElement;
+    private queueList: HTMLElement;
+    private messageList: HTMLElement;
+    private form: HTMLFormElement;
+
+    private connectedCallback() {
+        if (!env.isDebug) {
+            this.remove();
+            return;
+        }
+        fetchCSS("djinnjs-inspector");
+        this.render();
+        broadcaster.inspect(this.inbox.bind(this));
+    }
+
+    private disconnectedCallback() {
+        if (this.form) {
+            this.form.removeEventListener("submit", this.handleSubmit);
+        }
+    }
+
+    /**
+     * Receives the `inspector-event` and `inspector-snapshot` messages from the broadcaster.
+     * @param data - the `MessageData` passed into the inbox by the `Broadcaster` class
+     */
+    private inbox(data: MessageData): void {
+        const { type } = data;
+        switch (type) {
+            case "inspector-event":
+                this.renderEvent(data.event);
+                break;
+            case "inspector-snapshot":
+                this.renderSnapshot(data.snapshot);
+                break;
+            default:
+                return;
+        }
+    }
+
+    private render(): void {
+        this.innerHTML = `
+            <inspector-header>DjinnJS Inspector</inspector-header>
+            <inspector-section>
+                <h3>Inboxes</h3>
+                <ul inspector-inboxes></ul>
+            </inspector-section>
+            <inspector-section>
+                <h3>Queued Messages</h3>
+                <ul inspector-queue></ul>
+            </inspector-section>
+            <inspector-section>
+                <h3>Messages</h3>
+                <ol inspector-messages></ol>
+            </inspector-section>
+            <form>
+                <input name="recipient" type="text" placeholder="Recipient" required />
+                <textarea name="data" placeholder='{ "type": "test" }' required></textarea>
+                <select name="protocol">
+                    <option value="Once">Once</option>
+                    <option value="Guaranteed">Guaranteed</option>
+                    <option value="Durable">Durable</option>
+                </select>
+                <button type="submit">Send</button>
+            </form>
+        `;
+        this.inboxList = this.querySelector("[inspector-inboxes]");
+        this.queueList = this.querySelector("[inspector-queue]");
+        this.messageList = this.querySelector("[inspector-messages]");
+        this.form = this.querySelector("form");
+        this.form.addEventListener("submit", this.handleSubmit);
+    }
+
+    private renderSnapshot(snapshot: InspectorSnapshot): void {
+        this.inboxList.innerHTML = "";
+        for (let i = 0; i < snapshot.inboxes.length; i++) {
+            const inbox = snapshot.inboxes[i];
+            this.inboxList.appendChild(this.createListItem(`${inbox.name} (address ${inbox.address})`));
+        }
+
+        this.queueList.innerHTML = "";
+        for (let i = 0; i < snapshot.queuedMessages.length; i++) {
+            const message = snapshot.queuedMessages[i];
+            this.queueList.appendChild(
+                this.createListItem(`${message.recipient} → ${message.messageType} [${message.protocol}] attempt ${message.attempts}/${message.maxAttempts}`)
+            );
+        }
+    }
+
+    private renderEvent(event: InspectorEvent): void {
+        const time = new Date(event.timestamp).toLocaleTimeString();
+        let details = `${time} ${event.status.toUpperCase()} ${event.recipient} → ${event.messageType} [${event.protocol}]`;
+        if (event.status === "routed") {
+            details += ` to ${event.inboxCount} inbox(es)`;
+        } else if (event.reason) {
+            details += ` ${event.reason}`;
+        }
+        const item = this.createListItem(details);
+        item.setAttribute("status", event.status);
+        this.messageList.prepend(item);
+        while (this.messageList.childElementCount > this.messageLimit) {
+            this.messageList.lastElementChild.remove();
+        }
+    }
+
+    private createListItem(text: string): HTMLElement {
+        const item = document.createElement("li");
+        item.textContent = text;
+        return item;
+    }
+
+    /**
+     * Sends the test message described by the inspectors form.
+     * @param e - submit `Event`
+     */
+    private sendTestMessage(e: Event): void {
+        e.preventDefault();
+        const formData = new FormData(this.form);
+        try {
+            const data = JSON.parse(formData.get("data") as string);
+            broadcaster.message(formData.get("recipient") as string, data, formData.get("protocol") as MessageProtocol);
+        } catch (error) {
+            console.error(`Failed to send test message: ${error}`);
+        }
+    }
+    private handleSubmit: EventListener = this.sendTestMessage.bind(this);
+}
+customElements.define("djinnjs-inspector", Inspector);
@@ -5,25 +5,192 @@ type Message = {
 
 interface BroadcastWorkerMessage extends Message {
     messageId: string;
-    protocol: "Once" | "Guaranteed";
+    protocol: MessageProtocol;
     maxAttempts?: number;
     attempts?: number;
+    expires?: number;
+    retain?: boolean;
+    retryStrategy?: RetryStrategy;
+    nextAttempt?: number;
+    replyRequested?: boolean;
+    scope?: MessageScope;
 }
 
+type MessageScope = "local" | "global";
+
+type MessageProtocol = "Once" | "Guaranteed" | "Durable";
+
+type RetryStrategy = {
+    strategy: "fixed" | "linear" | "exponential";
+    delay?: number;
+    maxDelay?: number;
+    jitter?: boolean;
+};
+
+type ReplyCallback = (data: MessageData) => void;
+
 interface InboxHookupMessage extends MessageData {
+    type: "hookup";
     name: string;
     inboxAddress: number;
 }
 
 interface InboxDisconnectMessage extends MessageData {
+    type: "disconnect";
     inboxAddress: number;
 }
 
 interface InboxUpdateMessage extends MessageData {
+    type: "update-addresses";
     addresses: Array<{ oldAddressIndex: number; newAddressIndex: number }>;
 }
 
 interface UserDeviceInfoMessage extends MessageData {
+    type: "init";
     memory: number;
     isSafari: boolean;
 }
+
+interface InboxReplyMessage extends MessageData {
+    type: "reply";
+    replyTo: string;
+    data: MessageData;
+}
+
+interface RequestCancelMessage extends MessageData {
+    type: "cancel-request";
+    messageId: string;
+}
+
+type InspectorEventStatus = "routed" | "queued" | "dropped";
+
+interface InspectorEvent {
+    status: InspectorEventStatus;
+    messageId: string;
+    recipient: string;
+    messageType: string;
+    protocol: MessageProtocol;
+    attempts: number;
+    inboxCount: number;
+    reason: string;
+    timestamp: number;
+}
+
+interface InspectorSnapshot {
+    inboxes: Array<{ name: string; address: number }>;
+    queuedMessages: Array<{
+        messageId: string;
+        recipient: string;
+        messageType: string;
+        protocol: MessageProtocol;
+        attempts: number;
+        maxAttempts: number;
+    }>;
+}
+
+interface StoreCreateMessage extends MessageData {
+    type: "store-create";
+    store: string;
+    state: { [key: string]: unknown };
+}
+
+interface StoreActionMessage extends MessageData {
+    type: "store-action";
+    store: string;
+    action: { type: "set"; state: { [key: string]: unknown } } | { type: "delete"; keys: Array<string> } | { type: "reset" };
+}
+
+interface StoreSubscriptionMessage extends MessageData {
+    type: "store-subscribe" | "store-unsubscribe";
+    store: string;
+    inbox: string;
+}
+
+/** The data of messages sent to the `broadcast-worker` inbox */
+type BroadcastWorkerRequest =
+    | InboxHookupMessage
+    | InboxDisconnectMessage
+    | InboxUpdateMessage
+    | UserDeviceInfoMessage
+    | InboxReplyMessage
+    | RequestCancelMessage
+    | StoreCreateMessage
+    | StoreActionMessage
+    | StoreSubscriptionMessage
+    | { type: "inspect" };
+
+/**
+ * Version of the message protocol shared by the main thread and the runtime, pjax, broadcast, and service workers.
+ * Bump the version whenever a worker message changes, every thread declares it's own version using this type so the type checker flags the threads that weren't updated.
+ * The service worker isn't type checked, update it's `messageProtocolVersion` constant by hand.
+ */
+type WorkerProtocolVersion = 2;
+
+/** Every message posted between threads carries the protocol version of the sender */
+type VersionedMessage<TMessage> = TMessage & { version: number };
+
+/** Sent by a worker that received a message using a different protocol version, usually caused by a stale cached worker */
+interface WorkerVersionMismatchMessage {
+    type: "version-mismatch";
+    received: number;
+}
+
+/** The `postMessage()` signature of a worker scope, the DOM library types `self` as a `Window` */
+interface WorkerScope<TMessage> {
+    postMessage(message: VersionedMessage<TMessage>): void;
+}
+
+interface PjaxResources {
+    eager: Array<string>;
+    lazy: Array<string>;
+    eagerScripts: Array<string>;
+    lazyScripts: Array<string>;
+    eagerComponents: Array<string>;
+}
+
+type RuntimeWorkerRequest = { type: "eager"; body: string } | { type: "lazy"; body: string } | { type: "parse"; body: string; requestUid: string };
+
+type RuntimeWorkerResponse =
+    | { type: "eager"; files: Array<string>; scripts: Array<string> }
+    | { type: "lazy"; files: Array<string>; scripts: Array<string> }
+    | { type: "parse"; pjaxFiles: PjaxResources; requestUid: string }
+    | WorkerVersionMismatchMessage;
+
+/** A `pjax-form` submission, `FormData` can't be cloned so the form data is sent as an array of entries */
+interface PjaxFormRequest {
+    type: "form";
+    requestId: string;
+    url: string;
+    method: "GET" | "POST";
+    enctype: string;
+    entries: Array<[string, FormDataEntryValue]>;
+}
+
+type PjaxWorkerRequest =
+    | { type: "revision-check"; url: string }
+    | { type: "pjax"; requestId: string; url: string; currentUrl: string }
+    | { type: "prefetch"; urls: Array<string> }
+    | PjaxFormRequest;
+
+/** `invalid` responses are validation errors, such as a `422` response to a form submission, that are rendered in place */
+type PjaxResponseStatus = "external" | "hash-change" | "ok" | "invalid" | "error";
+
+type PjaxWorkerResponse =
+    | { type: "revision-check"; status: "stale"; url: string }
+    | { type: "pjax"; status: PjaxResponseStatus; url: string; requestId: string; body?: string; error?: string }
+    | WorkerVersionMismatchMessage;
+
+/** Tells the broadcaster to deliver the message data to the inboxes at the provided addresses */
+interface InboxLookupMessage {
+    type: "lookup";
+    data: MessageData;
+    inboxIndexes: Array<number>;
+    messageId: string;
+    replyRequested: boolean;
+}
+
+type BroadcastWorkerResponse = Message | InboxLookupMessage | WorkerVersionMismatchMessage;
+
+type ServiceWorkerRequest = { type: "cachebust"; url: string } | { type: "page-refresh"; url: string; network: string } | { type: "clear-content-cache" };
+
+type ServiceWorkerResponse = { type: "cachebust"; max: number; contentCacheExpires: number } | { type: "page-refresh" } | WorkerVersionMismatchMessage;
@@ -1,6 +1,7 @@
 /** The Pjax Web Worker class. Used to handle page revision checking & navigation requests. */
 class PjaxWorker {
     private prefetchQueue: Array<string>;
+    private protocolVersion: WorkerProtocolVersion = 2;
 
     constructor() {
         self.onmessage = this.handleMessage.bind(this);
@@ -12,27 +13,45 @@ class PjaxWorker {
      * @param e - the `MessageEvent`
      */
     private handleMessage(e: MessageEvent): void {
-        const { type } = e.data;
-        switch (type) {
+        const request: VersionedMessage<PjaxWorkerRequest> = e.data;
+        if (request.version !== this.protocolVersion) {
+            this.postResponse({
+                type: "version-mismatch",
+                received: request?.version ?? null,
+            });
+            return;
+        }
+        switch (request.type) {
             case "revision-check":
-                this.checkRevision(e.data.url);
+                this.checkRevision(request.url);
                 break;
             case "pjax":
-                this.pjax(e.data.url, e.data.requestId, e.data.currentUrl);
+                this.pjax(request.url, request.requestId, request.currentUrl);
+                break;
+            case "form":
+                this.submitForm(request);
                 break;
             case "prefetch":
                 const existingQueue = this.prefetch.length;
-                this.prefetchQueue = [...this.prefetchQueue, ...e.data.urls];
+                this.prefetchQueue = [...this.prefetchQueue, ...request.urls];
                 if (!existingQueue) {
                     this.prefetch();
                 }
                 break;
             default:
-                console.error(`Unknown Pjax Worker message type: ${type}`);
+                console.error(`Unknown Pjax Worker message type: ${e.data.type}`);
                 break;
         }
     }
 
+    /**
+     * Sends the versioned response to the Pjax class.
+     * @param response - the `PjaxWorkerResponse` object
+     */
+    private postResponse(response: PjaxWorkerResponse): void {
+        ((self as unknown) as WorkerScope<PjaxWorkerResponse>).postMessage({ ...response, version: this.protocolVersion });
+    }
+
     /**
      * Fetches the URL provided by the Pjax class.
      * The service worker will cache the response.
@@ -73,8 +92,7 @@ class PjaxWorker {
      */
     private async pjax(url: string, requestId: string, currentUrl: string) {
         if (new RegExp(/(http\:\/\/)|(https\:\/\/)/gi).test(url) && new RegExp(self.location.origin).test(url) === false) {
-            // @ts-ignore
-            self.postMessage({
+            this.postResponse({
                 type: "pjax",
                 status: "external",
                 url: url,
@@ -87,8 +105,7 @@ class PjaxWorker {
             const cleanUrl = url.replace(/\#.*/g, "");
             const cleanCurrentUrl = currentUrl.replace(/\#.*/g, "");
             if (cleanUrl === cleanCurrentUrl) {
-                // @ts-ignore
-                self.postMessage({
+                this.postResponse({
                     type: "pjax",
                     status: "hash-change",
                     url: url,
@@ -109,8 +126,7 @@ class PjaxWorker {
             });
             if (request.ok && request.headers.get("Content-Type") && request.headers.get("Content-Type").match(/(text\/html)/gi)) {
                 const response = await request.text();
-                // @ts-ignore
-                self.postMessage({
+                this.postResponse({
                     type: "pjax",
                     status: "ok",
                     body: response,
@@ -118,8 +134,7 @@ class PjaxWorker {
                     url: url,
                 });
             } else {
-                // @ts-ignore
-                self.postMessage({
+                this.postResponse({
                     type: "pjax",
                     status: "error",
                     error: request.statusText,
@@ -128,11 +143,81 @@ class PjaxWorker {
                 });
             }
         } catch (error) {
-            // @ts-ignore
-            self.postMessage({
+            this.postResponse({
+                type: "pjax",
+                status: "error",
+                error: error.message,
+                url: url,
+                requestId: requestId,
+            });
+        }
+    }
+
+    /**
+     * Submits the form data and responds with the body of the final page after any redirects have been followed.
+     * `GET` submissions append the form data to the URLs query string, file entries are replaced by their filenames.
+     * Validation error responses with a `422` status respond with the `invalid` status so the Pjax class can render them in place.
+     * @param request - the `PjaxFormRequest` object
+     */
+    private async submitForm(request: PjaxFormRequest) {
+        const { requestId, method, enctype, entries } = request;
+        let url = request.url;
+        let body: FormData | URLSearchParams = null;
+        if (method === "GET" || enctype !== "multipart/form-data") {
+            const params = new URLSearchParams();
+            for (let i = 0; i < entries.length; i++) {
+                const [name, value] = entries[i];
+                params.append(name, typeof value === "string" ? value : value.name);
+            }
+            if (method === "GET") {
+                const requestUrl = new URL(url);
+                requestUrl.search = params.toString();
+                url = requestUrl.href;
+            } else {
+                body = params;
+            }
+        } else {
+            body = new FormData();
+            for (let i = 0; i < entries.length; i++) {
+                body.append(entries[i][0], entries[i][1]);
+            }
+        }
+
+        try {
+            const response = await fetch(url, {
+                method: method,
+                body: body,
+                credentials: "include",
+                redirect: "follow",
+                headers: new Headers({
+                    "X-Requested-With": "XMLHttpReqeust",
+                    "X-Pjax": "true",
+                }),
+            });
+            const isHTML = response.headers.get("Content-Type") && response.headers.get("Content-Type").match(/(text\/html)/gi);
+            if ((response.ok || response.status === 422) && isHTML) {
+                this.postResponse({
+                    type: "pjax",
+                    status: response.ok ? "ok" : "invalid",
+                    body: await response.text(),
+                    requestId: requestId,
+                    url: response.url || url,
+                });
+            } else {
+                /** The final response URL is used for the native navigation fallback so the submission isn't repeated */
+                this.postResponse({
+                    type: "pjax",
+                    status: "error",
+                    error: response.statusText,
+                    url: response.url || url,
+                    requestId: requestId,
+                });
+            }
+        } catch (error) {
+            this.postResponse({
                 type: "pjax",
                 status: "error",
-                error: error,
+                error: error.message,
                 url: url,
                 requestId: requestId,
             });
@@ -209,8 +294,7 @@ class PjaxWorker {
             return;
         }
         if (newTag !== cachedTag) {
-            // @ts-ignore
-            self.postMessage({
+            this.postResponse({
                 type: "revision-check",
                 status: "stale",
                 url: url,
@@ -1,17 +1,43 @@
 import { broadcaster } from "./broadcaster";
 import { debug, env, uuid } from "./env";
 import { sendPageView, setupGoogleAnalytics } from "./gtags.js";
-import { transitionManager } from "./transition-manager";
+import { transitionManager, TransitionRegion } from "./transition-manager";
 import { djinnjsOutDir, gaId, disablePrefetching, disableServiceWorker } from "./config";
 import { notify } from "../web_modules/@codewithkyle/notifications";
 import { fetchCSS } from "./fetch";
+import { telemetry } from "./telemetry";
+import { versionMessage, checkWorkerVersion, reportVersionMismatch } from "./worker-protocol";
+
+/**
+ * Head elements that are synchronized with the fetched document.
+ * Stylesheets and scripts are loaded by DjinnJS and are never touched.
+ */
+const managedHeadSelector = [
+    'meta[name]:not([name="viewport"])',
+    "meta[property]",
+    'link[rel="canonical"]',
+    'link[rel="alternate"]',
+    'link[rel="prev"]',
+    'link[rel="next"]',
+    'script[type="application/ld+json"]',
+].join(", ");
 
 interface PjaxState {
     activeRequestUid: string;
+    /** `true` from the start of a navigation until the history has been updated, scroll positions are not saved while navigating */
+    navigating: boolean;
 }
 
+type ScrollPosition = {
+    x: number;
+    y: number;
+};
+
 interface NavigaitonRequest {
-    body?: string;
+    /** The views that will be swapped, resolved once the page has been fetched */
+    regions?: Array<TransitionRegion>;
+    /** The fetched document, used to update the current documents `<head>` */
+    incomingDocument?: HTMLDocument;
     title?: string;
     url: string;
     history: "push" | "replace";
@@ -19,6 +45,40 @@ interface NavigaitonRequest {
     transition: string | null;
     transitionData: string | null;
     targetSelector: string;
+    /** The scroll position saved in the history entry, restored after a back or forward navigation */
+    scrollPosition: ScrollPosition | null;
+    /** The `pjax-id` attribute values of the views that will be swapped */
+    regionIds: Array<string> | null;
+    /** Back and forward navigations can't be cancelled since the browser already changed the URL */
+    cancelable: boolean;
+    /** Telemetry entry id of the entire navigation */
+    timing?: string;
+    /** Telemetry entry id of the current navigation phase */
+    phaseTiming?: string;
+}
+
+type PjaxLifecycleEvent = "before-navigate" | "fetched" | "before-swap" | "after-swap" | "error";
+
+/** The public details of a `NavigaitonRequest` */
+export type NavigationDetails = {
+    url: string;
+    title: string | null;
+    history: "push" | "replace";
+    requestUid: string;
+    transition: string | null;
+    transitionData: string | null;
+    targetSelector: string | null;
+    regionIds: Array<string> | null;
+};
+
+/**
+ * The message sent to the `pjax` inbox at every stage of a navigation.
+ * The message is also the `detail` of the `pjax:<type>` event dispatched on the `document`, the `pjax:before-navigate` event can be cancelled using `preventDefault()`.
+ */
+export interface PjaxLifecycleMessage extends MessageData {
+    type: PjaxLifecycleEvent;
+    request: NavigationDetails;
+    error?: string;
 }
 
 class Pjax {
@@ -27,11 +87,16 @@ class Pjax {
     private serviceWorker: ServiceWorker;
     private navigationRequestQueue: Array<NavigaitonRequest>;
     private io: IntersectionObserver;
+    private announcer: HTMLElement;
+    private scrollTimer: number;
 
     constructor() {
         this.state = {
             activeRequestUid: null,
+            navigating: false,
         };
+        this.announcer = null;
+        this.scrollTimer = null;
         this.worker = null;
         this.serviceWorker = null;
         this.navigationRequestQueue = [];
@@ -73,7 +138,7 @@ class Pjax {
                         navigator.serviceWorker.onmessage = this.handleServiceWorkerMessage.bind(this);
 
                         /** Tell the service worker to get the latest cachebust data */
-                        this.serviceWorker.postMessage({
+                        this.sendServiceWorkerMessage({
                             type: "cachebust",
                             url: window.location.href,
                         });
@@ -88,10 +153,28 @@ class Pjax {
                     }
                 });
         }
+        /** Pjax restores the scroll position saved in the history state, including after a reload or when returning from another website */
+        if ("scrollRestoration" in window.history) {
+            window.history.scrollRestoration = "manual";
+        }
+
+        /** Prepare the live region that announces the new page to screen readers */
+        this.announcer = document.createElement("div");
+        this.announcer.setAttribute("aria-live", "polite");
+        this.announcer.setAttribute("aria-atomic", "true");
+        this.announcer.setAttribute("pjax-announcer", "");
+        this.announcer.style.cssText = "position:absolute;width:1px;height:1px;margin:-1px;padding:0;overflow:hidden;clip:rect(0 0 0 0);white-space:nowrap;border:0;";
+        document.body.appendChild(this.announcer);
+
         /** Add event listeners */
         window.addEventListener("popstate", this.windowPopstateEvent);
+        window.addEventListener("scroll", this.windowScrollEvent, { passive: true });
         /** Update the history state with the required `state.url` value */
-        window.history.replaceState({ url: window.location.href }, document.title, window.location.href);
+        const scrollPosition: ScrollPosition = window.history.state?.scroll ?? null;
+        window.history.replaceState({ url: window.location.href, scroll: scrollPosition }, document.title, window.location.href);
+        if (scrollPosition !== null) {
+            window.scrollTo(scrollPosition.x, scrollPosition.y);
+        }
         fetchCSS("pjax-notification");
     }
 
@@ -109,10 +192,13 @@ class Pjax {
                 this.collectLinks();
                 break;
             case "load":
-                this.navigate(data.url, data?.transition, data?.transitionData, data?.history, data?.target);
+                this.navigate(data.url, data?.transition, data?.transitionData, data?.history, data?.target, data?.regions, data?.scroll, !data?.popstate);
                 break;
             case "finalize-pjax":
                 this.updateHistory(data.title, data.url, data.history);
+                if (data.requestUid === this.state.activeRequestUid) {
+                    this.state.navigating = false;
+                }
                 if (new RegExp("#").test(data.url)) {
                     this.scrollToAnchor(data.url);
                 }
@@ -129,6 +215,9 @@ class Pjax {
             case "css-ready":
                 this.swapPjaxContent(data.requestUid);
                 break;
+            case "cancel-navigation":
+                this.cancelNavigation(data.requestUid);
+                break;
             case "prefetch":
                 if (!disablePrefetching) {
                     this.prefetchLinks();
@@ -147,13 +236,33 @@ class Pjax {
         }
     }
 
+    /**
+     * Sends a versioned message to the Pjax web worker.
+     * @param message - the `PjaxWorkerRequest` object
+     */
+    private sendWorkerMessage(message: PjaxWorkerRequest): void {
+        this.worker.postMessage(versionMessage(message));
+    }
+
+    /**
+     * Sends a versioned message to the Service Worker.
+     * @param message - the `ServiceWorkerRequest` object
+     */
+    private sendServiceWorkerMessage(message: ServiceWorkerRequest): void {
+        this.serviceWorker.postMessage(versionMessage(message));
+    }
+
     /**
      * Handles messages from the Service Worker.
+     * Messages using a different protocol version are ignored and reported to the `runtime` inbox.
      * @param e - the `MessageEvent` object
      */
     private handleServiceWorkerMessage(e: MessageEvent): void {
-        const { type } = e.data;
-        switch (type) {
+        const response: VersionedMessage<ServiceWorkerResponse> = e.data;
+        if (!checkWorkerVersion("service-worker", response, reportVersionMismatch)) {
+            return;
+        }
+        switch (response.type) {
             case "page-refresh":
                 let promptCount = parseInt(sessionStorage.getItem("prompts"));
                 promptCount = promptCount + 1;
@@ -174,27 +283,27 @@ class Pjax {
                 });
                 break;
             case "cachebust":
-                sessionStorage.setItem("maxPrompts", `${e.data.max}`);
+                sessionStorage.setItem("maxPrompts", `${response.max}`);
                 const currentPromptCount = sessionStorage.getItem("prompts");
-                if (parseInt(currentPromptCount) >= e.data.max) {
+                if (parseInt(currentPromptCount) >= response.max) {
                     sessionStorage.setItem("prompts", "0");
-                    this.serviceWorker.postMessage({
+                    this.sendServiceWorkerMessage({
                         type: "clear-content-cache",
                     });
                 }
                 const contentCacheTimestap = parseInt(localStorage.getItem("contentCache"));
                 const difference = Date.now() - contentCacheTimestap;
-                const neededDifference = e.data.contentCacheExpires * 24 * 60 * 60 * 1000;
+                const neededDifference = response.contentCacheExpires * 24 * 60 * 60 * 1000;
                 if (difference >= neededDifference) {
                     localStorage.setItem("contentCache", `${Date.now()}`);
-                    this.serviceWorker.postMessage({
+                    this.sendServiceWorkerMessage({
                         type: "clear-content-cache",
                     });
                 }
                 break;
             default:
                 if (debug) {
-                    console.error(`Undefined Service Worker response message type: ${type}`);
+                    console.error(`Undefined Service Worker response message type: ${e.data.type}`);
                 }
                 break;
         }
@@ -202,26 +311,30 @@ class Pjax {
 
     /**
      * Handles messages from the Pjax Web Worker.
+     * Messages using a different protocol version are ignored and reported to the `runtime` inbox.
      * @param e - the `MessageEvent` object
      */
     private handleWorkerMessage(e: MessageEvent): void {
-        const { type } = e.data;
-        switch (type) {
+        const response: VersionedMessage<PjaxWorkerResponse> = e.data;
+        if (!checkWorkerVersion("pjax-worker", response, reportVersionMismatch)) {
+            return;
+        }
+        switch (response.type) {
             case "revision-check":
-                if (e.data.status === "stale") {
-                    this.serviceWorker.postMessage({
+                if (response.status === "stale") {
+                    this.sendServiceWorkerMessage({
                         type: "page-refresh",
-                        url: e.data.url,
+                        url: response.url,
                         network: env.connection,
                     });
                 }
                 break;
             case "pjax":
-                this.handlePjaxResponse(e.data.requestId, e.data.status, e.data.url, e.data?.body, e.data?.error);
+                this.handlePjaxResponse(response.requestId, response.status, response.url, response?.body, response?.error);
                 break;
             default:
                 if (debug) {
-                    console.error(`Undefined Pjax Worker response message type: ${type}`);
+                    console.error(`Undefined Pjax Worker response message type: ${e.data.type}`);
                 }
                 break;
         }
@@ -235,17 +348,29 @@ class Pjax {
     }
 
     /**
-     * Creates and sends a navigation request to the Pjax web worker and queues navigation request.
+     * Creates and queues a navigation request.
      * @param url - the URL of the requested page
      * @param transition - the name of the desired transition effect
      * @param transitionData - optional data that could modify the transition
      * @param history - how Pjax should handle the windows history manipulation
      * @param targetEl - the `pjax-id` attribute value
+     * @param regions - space separated list of the `pjax-id` attribute values of every view that will be swapped, defaults to the `pjax-regions` attribute of the documents `<body>`
+     * @param scrollPosition - the scroll position that will be restored after the swap
+     * @param cancelable - `false` for back and forward navigations
+     * @returns - the queued `NavigaitonRequest` object or `null` when a `pjax:before-navigate` event listener cancelled the navigation
      */
-    private navigate(url: string, transition: string = null, transitionData: string = null, history: "push" | "replace" = "push", targetEl: string = null): void {
-        env.startPageTransition();
+    private startNavigation(
+        url: string,
+        transition: string = null,
+        transitionData: string = null,
+        history: "push" | "replace" = "push",
+        targetEl: string = null,
+        regions: string = null,
+        scrollPosition: ScrollPosition = null,
+        cancelable = true
+    ): NavigaitonRequest {
         const requestUid = uuid();
-        this.state.activeRequestUid = requestUid;
+        const regionIds = (regions ?? document.body.getAttribute("pjax-regions"))?.trim() || null;
         const navigationRequest: NavigaitonRequest = {
             url: url,
             history: history,
@@ -253,16 +378,215 @@ class Pjax {
             transition: transition,
             transitionData: transitionData,
             targetSelector: targetEl,
+            scrollPosition: scrollPosition,
+            regionIds: regionIds !== null ? regionIds.split(/\s+/g) : null,
+            cancelable: cancelable,
         };
+        if (!this.dispatchLifecycleEvent("before-navigate", navigationRequest)) {
+            return null;
+        }
+        window.clearTimeout(this.scrollTimer);
+        if (history === "push") {
+            this.saveScrollPosition();
+        }
+        env.startPageTransition();
+        this.state.activeRequestUid = requestUid;
+        this.state.navigating = true;
+        navigationRequest.timing = telemetry.start("navigation", url);
+        navigationRequest.phaseTiming = telemetry.start("navigation-phase", `request ${url}`);
         this.navigationRequestQueue.push(navigationRequest);
-        this.worker.postMessage({
+        return navigationRequest;
+    }
+
+    /**
+     * Creates and sends a navigation request to the Pjax web worker.
+     * @param url - the URL of the requested page
+     * @param transition - the name of the desired transition effect
+     * @param transitionData - optional data that could modify the transition
+     * @param history - how Pjax should handle the windows history manipulation
+     * @param targetEl - the `pjax-id` attribute value
+     * @param regions - space separated list of the `pjax-id` attribute values of every view that will be swapped
+     * @param scrollPosition - the scroll position that will be restored after the swap
+     * @param cancelable - `false` for back and forward navigations
+     */
+    private navigate(
+        url: string,
+        transition: string = null,
+        transitionData: string = null,
+        history: "push" | "replace" = "push",
+        targetEl: string = null,
+        regions: string = null,
+        scrollPosition: ScrollPosition = null,
+        cancelable = true
+    ): void {
+        const navigationRequest = this.startNavigation(url, transition, transitionData, history, targetEl, regions, scrollPosition, cancelable);
+        if (navigationRequest === null) {
+            return;
+        }
+        this.sendWorkerMessage({
             type: "pjax",
-            requestId: requestUid,
+            requestId: navigationRequest.requestUid,
             url: url,
             currentUrl: location.href,
         });
     }
 
+    /**
+     * Creates and sends a form submission request to the Pjax web worker.
+     * The submit button can override the forms action, method, and enctype using the `formaction`, `formmethod`, and `formenctype` attributes.
+     * @param form - the submitted `pjax-form` element
+     * @param submitter - the button that submitted the form
+     */
+    private submitForm(form: HTMLFormElement, submitter: HTMLButtonElement | HTMLInputElement = null): void {
+        const url = submitter?.hasAttribute("formaction") ? submitter.formAction : form.action;
+        const method = (submitter?.hasAttribute("formmethod") ? submitter.formMethod : form.method).toUpperCase() === "POST" ? "POST" : "GET";
+        const enctype = submitter?.hasAttribute("formenctype") ? submitter.formEnctype : form.enctype;
+        const formData = new FormData(form);
+        if (submitter?.name) {
+            formData.append(submitter.name, submitter.value);
+        }
+        const navigationRequest = this.startNavigation(
+            url,
+            form.getAttribute("pjax-transition"),
+            form.getAttribute("pjax-transition-data"),
+            "push",
+            form.getAttribute("pjax-view-id"),
+            form.getAttribute("pjax-regions")
+        );
+        if (navigationRequest === null) {
+            return;
+        }
+        this.sendWorkerMessage({
+            type: "form",
+            requestId: navigationRequest.requestUid,
+            url: url,
+            method: method,
+            enctype: enctype,
+            entries: Array.from(formData.entries()),
+        });
+    }
+
+    /**
+     * Falls back to traditional (native) page navigation.
+     * `pjax-form` submissions are never resubmitted natively, the URL of a `GET` form already contains the form data and a `POST` form navigates to the final response URL so the request isn't repeated.
+     * @param url - the requested URL or the final response URL
+     */
+    private fallbackToNativeNavigation(url: string): void {
+        window.location.href = url;
+    }
+
+    /**
+     * Dispatches the `pjax:<type>` event on the `document` and sends the lifecycle message to the `pjax` inbox.
+     * The message is not sent when the event is cancelled.
+     * @param type - the `PjaxLifecycleEvent` type
+     * @param request - the `NavigaitonRequest` object
+     * @param error - the error message of a failed navigation
+     * @returns - `false` when a `pjax:before-navigate` event listener called `preventDefault()`
+     */
+    private dispatchLifecycleEvent(type: PjaxLifecycleEvent, request: NavigaitonRequest, error: string = null): boolean {
+        const message: PjaxLifecycleMessage = {
+            type: type,
+            request: {
+                url: request.url,
+                title: request?.title ?? null,
+                history: request.history,
+                requestUid: request.requestUid,
+                transition: request.transition,
+                transitionData: request.transitionData,
+                targetSelector: request.targetSelector,
+                regionIds: request.regionIds,
+            },
+        };
+        if (error !== null) {
+            message.error = error;
+        }
+        const event = new CustomEvent(`pjax:${type}`, {
+            detail: message,
+            cancelable: type === "before-navigate" && request.cancelable,
+        });
+        if (!document.dispatchEvent(event)) {
+            return false;
+        }
+        broadcaster.message("pjax", message);
+        return true;
+    }
+
+    /**
+     * Cancels the active navigation request before the new content is swapped.
+     * Once the request is no longer active the Pjax web worker response and the `css-ready` message are treated as stale.
+     * Back and forward navigations can't be cancelled since the browser already changed the URL.
+     * @param requestUid - the navigation request unique id
+     */
+    private cancelNavigation(requestUid: string): void {
+        const request = this.getNavigaitonRequest(requestUid);
+        if (request === null || request.requestUid !== this.state.activeRequestUid || !request.cancelable) {
+            return;
+        }
+        this.state.activeRequestUid = null;
+        this.state.navigating = false;
+        env.endPageTransition();
+    }
+
+    /**
+     * Saves the windows scroll position in the current history entries state.
+     */
+    private saveScrollPosition(): void {
+        const scrollPosition: ScrollPosition = {
+            x: window.scrollX,
+            y: window.scrollY,
+        };
+        window.history.replaceState({ ...window.history.state, scroll: scrollPosition }, document.title, window.location.href);
+    }
+
+    /**
+     * Handles the windows `scroll` event.
+     * The scroll position is saved once the user stops scrolling.
+     */
+    private trackScrollPosition(): void {
+        if (this.state.navigating) {
+            return;
+        }
+        window.clearTimeout(this.scrollTimer);
+        this.scrollTimer = window.setTimeout(() => {
+            this.saveScrollPosition();
+        }, 100);
+    }
+    private windowScrollEvent: EventListener = this.trackScrollPosition.bind(this);
+
+    /**
+     * Moves focus to the first element with a `pjax-focus` attribute within the swapped views or to the first swapped view.
+     * Elements that can't receive focus are given a `tabindex` of `-1`.
+     * @param regions - the swapped `TransitionRegion` objects
+     */
+    private focusContent(regions: Array<TransitionRegion>): void {
+        let target: HTMLElement = null;
+        for (let i = 0; i < regions.length && target === null; i++) {
+            target = document.body.querySelector(regions[i].selector)?.querySelector("[pjax-focus]") ?? null;
+        }
+        if (target === null) {
+            target = document.body.querySelector(regions[0].selector);
+        }
+        if (!target) {
+            return;
+        }
+        if (target.tabIndex < 0 && !target.hasAttribute("tabindex")) {
+            target.setAttribute("tabindex", "-1");
+        }
+        target.focus({ preventScroll: true });
+    }
+
+    /**
+     * Announces the new page through the ARIA live region.
+     * The live region is cleared first so screen readers announce pages with the same title.
+     * @param message - the announced text
+     */
+    private announce(message: string): void {
+        this.announcer.textContent = "";
+        window.setTimeout(() => {
+            this.announcer.textContent = message;
+        }, 100);
+    }
+
     /**
      * Handles the windows `popstate` event.
      * @param e - the `PopStateEvent` object
@@ -273,10 +597,13 @@ class Pjax {
             /** Tells the Pjax class to load the URL stored in this windows history.
              * In order to preserve the timeline navigation the history will use `replace` instead of `push`.
              */
+            window.clearTimeout(this.scrollTimer);
             broadcaster.message("pjax", {
                 type: "load",
                 url: e.state.url,
                 history: "replace",
+                scroll: e.state?.scroll ?? null,
+                popstate: true,
             });
         }
     }
@@ -292,6 +619,7 @@ class Pjax {
         if (history === "replace") {
             window.history.replaceState(
                 {
+                    ...window.history.state,
                     url: url,
                 },
                 title,
@@ -322,16 +650,35 @@ class Pjax {
             transition: target.getAttribute("pjax-transition"),
             transitionData: target.getAttribute("pjax-transition-data"),
             target: target.getAttribute("pjax-view-id"),
+            regions: target.getAttribute("pjax-regions"),
         });
     }
     private handleLinkClick: EventListener = this.hijackRequest.bind(this);
 
+    /**
+     * Called when the `submit` event fires on a Pjax tracked form element.
+     * Forms submitting to another origin are submitted natively.
+     * @param e - submit `Event`
+     */
+    private hijackSubmit(e: Event): void {
+        const form = e.currentTarget as HTMLFormElement;
+        const submitter = ((e as Event & { submitter?: HTMLElement }).submitter ?? null) as HTMLButtonElement | HTMLInputElement;
+        const action = submitter?.hasAttribute("formaction") ? submitter.formAction : form.action;
+        if (new URL(action, location.href).origin !== location.origin) {
+            return;
+        }
+        e.preventDefault();
+        this.submitForm(form, submitter);
+    }
+    private handleFormSubmit: EventListener = this.hijackSubmit.bind(this);
+
     /**
      * Collect all anchor elements with a `href` attribute and add a click event listener.
      * Ignored links are:
      * - any link with a `no-pjax` attribute
      * - any link with a `no-pjax` class
      * - any link with a `target` attribute
+     * Forms with a `pjax-form` attribute and without a `target` attribute are also collected and given a submit event listener.
      */
     private collectLinks(): void {
         const unregisteredLinks = Array.from(document.body.querySelectorAll("a[href]:not([pjax-tracked]):not([no-pjax]):not([target]):not(.no-pjax)"));
@@ -341,6 +688,11 @@ class Pjax {
                 link.addEventListener("click", this.handleLinkClick);
             });
         }
+        const unregisteredForms = Array.from(document.body.querySelectorAll("form[pjax-form]:not([pjax-tracked]):not([target])"));
+        unregisteredForms.map((form: HTMLFormElement) => {
+            form.setAttribute("pjax-tracked", "true");
+            form.addEventListener("submit", this.handleFormSubmit);
+        });
     }
 
     /**
@@ -352,60 +704,147 @@ class Pjax {
      * @param body - the body text of the requested page
      * @param error - the error message of the failed request
      */
-    private handlePjaxResponse(requestId: string, status: string, url: string, body?: string, error?: string) {
+    private handlePjaxResponse(requestId: string, status: PjaxResponseStatus, url: string, body?: string, error?: string) {
         const request = this.getNavigaitonRequest(requestId);
         if (requestId === this.state.activeRequestUid) {
             if (status === "external") {
                 window.location.href = url;
             } else if (status === "hash-change") {
+                telemetry.cancel(request.phaseTiming);
+                telemetry.cancel(request.timing);
+                this.state.navigating = false;
                 location.hash = url.match(/\#.*/g)[0].replace("#", "");
-            } else if (status === "ok") {
-                const tempDocument: HTMLDocument = document.implementation.createHTMLDocument("pjax-temp-document");
-                tempDocument.documentElement.innerHTML = body;
-
-                let selector;
-                let currentMain;
-                if (request.targetSelector !== null) {
-                    selector = `[pjax-id="${request.targetSelector}"]`;
-                    currentMain = document.body.querySelector(selector);
+            } else if (status === "ok" || status === "invalid") {
+                telemetry.end(request.phaseTiming);
+                if (status === "invalid") {
+                    /** Validation errors are rendered in place */
+                    request.url = location.href;
+                    request.history = "replace";
+                    request.scrollPosition = {
+                        x: window.scrollX,
+                        y: window.scrollY,
+                    };
                 } else {
-                    selector = "main";
-                    currentMain = document.body.querySelector(selector);
-                    const mainId = currentMain.getAttribute("pjax-id");
-                    if (mainId) {
-                        selector = `[pjax-id="${mainId}"]`;
-                    }
+                    /** Use the final URL after any redirects */
+                    request.url = url;
                 }
+                const tempDocument: HTMLDocument = new DOMParser().parseFromString(body, "text/html");
 
-                const incomingMain = tempDocument.querySelector(selector);
-
-                if (incomingMain && currentMain) {
+                const regions = this.getTransitionRegions(request, tempDocument);
+                if (regions.length) {
                     /** Tells the runtime class to parse the incoming HTML for any new CSS files */
                     broadcaster.message("runtime", {
                         type: "parse",
-                        body: incomingMain.innerHTML,
+                        body: regions.map(region => region.html).join(""),
                         requestUid: requestId,
                     });
-                    request.body = incomingMain.innerHTML;
+                    request.regions = regions;
+                    request.incomingDocument = tempDocument;
                     request.title = tempDocument.title;
+                    request.phaseTiming = telemetry.start("navigation-phase", `resources ${url}`);
+                    this.dispatchLifecycleEvent("fetched", request);
                 } else {
                     console.error("Failed to find matching elements.");
-                    window.location.href = url;
+                    this.dispatchLifecycleEvent("error", request, "Failed to find matching elements.");
+                    this.fallbackToNativeNavigation(url);
                 }
             } else {
                 console.error(`Failed to fetch page: ${url}. Server responded with: ${error}`);
-                window.location.href = url;
+                this.dispatchLifecycleEvent("error", request, error);
+                this.fallbackToNativeNavigation(url);
             }
         } else {
+            telemetry.cancel(request.phaseTiming);
+            telemetry.cancel(request.timing);
             this.removeNavigationRequest(request.requestUid);
-            if (status !== "ok") {
+            if (status !== "ok" && status !== "invalid") {
                 console.error(`Failed to fetch page: ${url}. Server responded with: ${error}`);
             }
         }
     }
 
     /**
-     * Swaps the main elements inner HTML.
+     * Gets the query selectors of the views that will be swapped.
+     * Views are selected using the requests region IDs, the `pjax-view-id` target, or the `<main>` element.
+     * @param request - the `NavigaitonRequest` object
+     */
+    private getRegionSelectors(request: NavigaitonRequest): Array<string> {
+        if (request.regionIds !== null) {
+            return request.regionIds.map(regionId => `[pjax-id="${regionId}"]`);
+        }
+        if (request.targetSelector !== null) {
+            return [`[pjax-id="${request.targetSelector}"]`];
+        }
+        const mainId = document.body.querySelector("main")?.getAttribute("pjax-id") ?? null;
+        return [mainId !== null ? `[pjax-id="${mainId}"]` : "main"];
+    }
+
+    /**
+     * Collects the views that exist in both the current document and the fetched document.
+     * Each view uses it's own `pjax-transition` and `pjax-transition-data` attributes from the fetched document, falling back to the requests transition.
+     * @param request - the `NavigaitonRequest` object
+     * @param incomingDocument - the fetched document
+     */
+    private getTransitionRegions(request: NavigaitonRequest, incomingDocument: HTMLDocument): Array<TransitionRegion> {
+        const regions: Array<TransitionRegion> = [];
+        const selectors = this.getRegionSelectors(request);
+        for (let i = 0; i < selectors.length; i++) {
+            const currentView = document.body.querySelector(selectors[i]);
+            const incomingView = incomingDocument.querySelector(selectors[i]);
+            if (!currentView || !incomingView) {
+                if (debug && selectors.length > 1) {
+                    console.warn(`Skipped the ${selectors[i]} region, the view doesn't exist in both documents.`);
+                }
+                continue;
+            }
+            regions.push({
+                selector: selectors[i],
+                html: incomingView.innerHTML,
+                transition: incomingView.getAttribute("pjax-transition") ?? request.transition,
+                transitionData: incomingView.getAttribute("pjax-transition-data") ?? request.transitionData,
+            });
+        }
+        return regions;
+    }
+
+    /**
+     * Updates the managed `<head>` elements and the `lang` and `dir` attributes of the `<html>` element to match the fetched document.
+     * Unchanged elements are kept, elements missing from the fetched document are removed, and new elements are appended.
+     * Partial responses without any managed `<head>` elements, such as a `<head>` that only contains a `<title>`, are ignored.
+     * @param incomingDocument - the fetched document
+     */
+    private updateHead(incomingDocument: HTMLDocument): void {
+        const incomingElements = Array.from(incomingDocument.head.querySelectorAll(managedHeadSelector));
+        if (incomingElements.length === 0) {
+            return;
+        }
+        const currentElements = Array.from(document.head.querySelectorAll(managedHeadSelector));
+        const currentHTML = currentElements.map(element => element.outerHTML);
+        const incomingHTML = incomingElements.map(element => element.outerHTML);
+        for (let i = 0; i < currentElements.length; i++) {
+            if (!incomingHTML.includes(currentHTML[i])) {
+                currentElements[i].remove();
+            }
+        }
+        for (let i = 0; i < incomingElements.length; i++) {
+            if (!currentHTML.includes(incomingHTML[i])) {
+                document.head.appendChild(document.importNode(incomingElements[i], true));
+            }
+        }
+
+        const attributes = ["lang", "dir"];
+        for (let i = 0; i < attributes.length; i++) {
+            const value = incomingDocument.documentElement.getAttribute(attributes[i]);
+            if (value === null) {
+                document.documentElement.removeAttribute(attributes[i]);
+            } else if (document.documentElement.getAttribute(attributes[i]) !== value) {
+                document.documentElement.setAttribute(attributes[i], value);
+            }
+        }
+    }
+
+    /**
+     * Swaps the inner HTML of every view in a single transition.
      * @param requestUid - the navigation request unique id
      */
     private swapPjaxContent(requestUid: string) {
@@ -413,17 +852,23 @@ class Pjax {
         if (request.requestUid === this.state.activeRequestUid) {
             env.endPageTransition();
 
-            let selector;
-            if (request.targetSelector !== null) {
-                selector = `[pjax-id="${request.targetSelector}"]`;
-            } else {
-                selector = "main";
-            }
-
-            transitionManager(selector, request.body, request.transition, request.transitionData).then(() => {
+            telemetry.end(request.phaseTiming);
+            request.phaseTiming = telemetry.start("navigation-phase", `swap ${request.url}`);
+            this.dispatchLifecycleEvent("before-swap", request);
+            transitionManager(request.regions).then(() => {
+                telemetry.end(request.phaseTiming);
+                telemetry.end(request.timing);
                 document.title = request.title;
+                this.updateHead(request.incomingDocument);
+                if (request.scrollPosition !== null) {
+                    window.scrollTo(request.scrollPosition.x, request.scrollPosition.y);
+                }
+                this.focusContent(request.regions);
+                this.announce(request.title || request.url);
+                this.dispatchLifecycleEvent("after-swap", request);
                 broadcaster.message("pjax", {
                     type: "finalize-pjax",
+                    requestUid: request.requestUid,
                     url: request.url,
                     title: request.title,
                     history: request.history,
@@ -431,11 +876,16 @@ class Pjax {
                 broadcaster.message("runtime", {
                     type: "mount-components",
                 });
-                broadcaster.message("runtime", {
-                    type: "mount-inline-scripts",
-                    selector: selector,
-                });
+                for (let i = 0; i < request.regions.length; i++) {
+                    broadcaster.message("runtime", {
+                        type: "mount-inline-scripts",
+                        selector: request.regions[i].selector,
+                    });
+                }
             });
+        } else {
+            telemetry.cancel(request.phaseTiming);
+            telemetry.cancel(request.timing);
         }
         this.removeNavigationRequest(request.requestUid);
     }
@@ -471,7 +921,7 @@ class Pjax {
      * Sends a `revision-check` message to the Pjax web worker.
      */
     private checkPageRevision(): void {
-        this.worker.postMessage({
+        this.sendWorkerMessage({
             type: "revision-check",
             url: window.location.href,
         });
@@ -500,7 +950,7 @@ class Pjax {
         });
 
         /** Send the requested URLs to the Pjax web worker */
-        this.worker.postMessage({
+        this.sendWorkerMessage({
             type: "prefetch",
             urls: urls,
         });
@@ -532,7 +982,7 @@ class Pjax {
         });
         if (urls.length) {
             /** Send the requested URLs to the Pjax web worker */
-            this.worker.postMessage({
+            this.sendWorkerMessage({
                 type: "prefetch",
                 urls: urls,
             });
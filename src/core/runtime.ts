@@ -1,34 +1,78 @@
-import { env } from "./env";
+import { env, debug } from "./env";
 import { broadcaster } from "./broadcaster";
-import { fetchCSS, fetchJS } from "./fetch";
+import { fetchCSS, fetchJS, FetchResult, resolveModuleURL, loadAssetManifest, setFetchTelemetry } from "./fetch";
 import { djinnjsOutDir, disablePjax, usePercentage } from "./config";
+import { telemetry } from "./telemetry";
+import { versionMessage, checkWorkerVersion, reportVersionMismatch } from "./worker-protocol";
+import { parseRuntimeRequest } from "./html-tokenizer";
 
-interface PjaxResources {
-    eager: Array<string>;
-    lazy: Array<string>;
-}
+type WebComponentLoad = "lazy" | "eager" | "idle" | "interaction" | "media" | "visible-margin" | "never-on-2g";
+
+/** `requestIdleCallback()` isn't part of the DOM library types */
+type IdleCallbackWindow = Window & {
+    requestIdleCallback(callback: () => void): number;
+    cancelIdleCallback(handle: number): void;
+};
 
-interface WorkerResponse {
-    type: "eager" | "lazy" | "parse";
-    files: Array<string>;
-    requestUid: string | null;
-    pjaxFiles: PjaxResources;
+/**
+ * Checks if the browser supports `requestIdleCallback()`.
+ * @param win - the `window` object
+ */
+function supportsIdleCallback(win: Window): win is IdleCallbackWindow {
+    return "requestIdleCallback" in win;
 }
 
-type WebComponentLoad = null | "lazy" | "eager";
+/**
+ * Checks if the browser supports module workers, the `type` option is only read by browsers that support it.
+ */
+function supportsModuleWorkers(): boolean {
+    let supported = false;
+    const options: WorkerOptions = {
+        get type(): WorkerType {
+            supported = true;
+            return "module";
+        },
+    };
+    try {
+        new Worker("blob://", options).terminate();
+    } catch (e) {}
+    return supported;
+}
 
 class Runtime {
     private _bodyParserWorker: Worker;
     private _io: IntersectionObserver;
+    private _marginObservers: { [rootMargin: string]: IntersectionObserver };
+    /** Removes the listeners and observers of the loading strategies that haven't fired, a `WeakMap` so removed elements can be garbage collected */
+    private _strategyCleanups: WeakMap<Element, Array<() => void>>;
+    private _dependencies: { [filename: string]: Array<string> };
     private _loadingMessage: HTMLElement;
+    private _failedComponents: Array<Element>;
+    private _failedStylesheets: Array<string>;
+    private _failedScripts: Array<string>;
+    private _retryAttempts: number;
+    private _retryTimer: number;
+    private _maxRetryAttempts = 5;
+    private _renderBlockingTiming: string;
 
     constructor() {
-        this._bodyParserWorker = new Worker(`${window.location.origin}/${djinnjsOutDir}/runtime-worker.js`);
+        this._bodyParserWorker = supportsModuleWorkers() ? new Worker(`${window.location.origin}/${djinnjsOutDir}/runtime-worker.js`, { type: "module" }) : null;
+        this._marginObservers = {};
+        this._strategyCleanups = new WeakMap();
+        this._dependencies = null;
+        this._failedComponents = [];
+        this._failedStylesheets = [];
+        this._failedScripts = [];
+        this._retryAttempts = 0;
+        this._retryTimer = null;
+        setFetchTelemetry(telemetry);
+        this._renderBlockingTiming = telemetry.start("render-blocking", "eager resources");
         this._loadingMessage = document.body.querySelector("djinnjs-file-loading-message") || null;
         if (this._loadingMessage) {
             this._loadingMessage.setAttribute("state", "1");
         }
         window.addEventListener("load", this.handleLoadEvent);
+        window.addEventListener("online", this.handleOnlineEvent);
     }
 
     /**
@@ -40,12 +84,18 @@ class Runtime {
             this._loadingMessage.setAttribute("state", "2");
         }
         broadcaster.hookup("runtime", this.inbox.bind(this));
-        this._bodyParserWorker.postMessage({
+        this.fetchDependencyManifest();
+        this.sendWorkerMessage({
             type: "eager",
             body: document.body.innerHTML,
         });
-        this._bodyParserWorker.onmessage = this.handleWorkerMessage.bind(this);
+        if (this._bodyParserWorker) {
+            this._bodyParserWorker.onmessage = this.handleWorkerMessage.bind(this);
+        }
         this._io = new IntersectionObserver(this.intersectionCallback);
+        if (env.isDebug && document.body.querySelector("djinnjs-inspector")) {
+            fetchJS("inspector");
+        }
     }
     private handleLoadEvent: EventListener = this.init.bind(this);
 
@@ -57,7 +107,7 @@ class Runtime {
         const { type } = data;
         switch (type) {
             case "load":
-                fetchCSS(data.resources);
+                fetchCSS(data.resources).then(this.trackFailedStylesheets.bind(this));
                 break;
             case "mount-components":
                 this.handleWebComponents();
@@ -73,12 +123,37 @@ class Runtime {
         }
     }
 
+    /**
+     * Sends a versioned request to the Runtime web worker.
+     * Browsers without module worker support parse the HTML on the main thread.
+     * @param request - the `RuntimeWorkerRequest` object
+     */
+    private sendWorkerMessage(request: RuntimeWorkerRequest): void {
+        if (this._bodyParserWorker) {
+            this._bodyParserWorker.postMessage(versionMessage(request));
+        } else {
+            this.handleWorkerResponse(parseRuntimeRequest(request));
+        }
+    }
+
     /**
      * Handles the incoming message from the Runtime web worker.
+     * Messages using a different protocol version are ignored and reported to the `runtime` inbox.
      * @param e - the `MessageEvent` object
      */
     private handleWorkerMessage(e: MessageEvent) {
-        const response: WorkerResponse = e.data;
+        const response: VersionedMessage<RuntimeWorkerResponse> = e.data;
+        if (!checkWorkerVersion("runtime-worker", response, reportVersionMismatch)) {
+            return;
+        }
+        this.handleWorkerResponse(response);
+    }
+
+    /**
+     * Handles the parsed resources of the Runtime web worker.
+     * @param response - the `RuntimeWorkerResponse` object
+     */
+    private handleWorkerResponse(response: RuntimeWorkerResponse) {
         switch (response.type) {
             case "eager":
                 const loadingMessage = document.body.querySelector("djinnjs-file-loading-value") || null;
@@ -93,16 +168,21 @@ class Runtime {
                         loadingMessage.setAttribute("state", "enabled");
                     }
                 }
-                fetchCSS(response.files).then(() => {
+                Promise.all([fetchCSS(response.files), fetchJS(response.scripts)]).then(([stylesheets, scripts]) => {
+                    this.trackFailedStylesheets(stylesheets);
+                    this.trackFailedScripts(scripts);
                     env.setDOMState("idling");
-                    this._bodyParserWorker.postMessage({
+                    telemetry.end(this._renderBlockingTiming);
+                    this.sendWorkerMessage({
                         type: "lazy",
                         body: document.body.innerHTML,
                     });
                 });
                 break;
             case "lazy":
-                fetchCSS(response.files).then(() => {
+                fetchJS(response.scripts).then(this.trackFailedScripts.bind(this));
+                fetchCSS(response.files).then(result => {
+                    this.trackFailedStylesheets(result);
                     this.handleWebComponents();
                     if (env.connection !== "2g" && env.connection !== "slow-2g" && !disablePjax) {
                         fetchJS("pjax").then(() => {
@@ -112,7 +192,7 @@ class Runtime {
                                     type: "init",
                                 },
                                 "Guaranteed",
-                                Infinity
+                                { maxAttempts: Infinity }
                             );
                         });
                     }
@@ -161,14 +241,21 @@ class Runtime {
     }
 
     private fetchPjaxResources(data: PjaxResources, requestUid: string): void {
-        /** Fetch the requested eager CSS files */
-        fetchCSS(data.eager).then(() => {
-            /** Tell the Pjax class that the eager CSS files have been loaded */
+        /** Start fetching the eager web components while the page is loading */
+        for (let i = 0; i < data.eagerComponents.length; i++) {
+            this.preloadWebComponent(data.eagerComponents[i]);
+        }
+        /** Fetch the requested eager CSS and JS files */
+        Promise.all([fetchCSS(data.eager), fetchJS(data.eagerScripts)]).then(([stylesheets, scripts]) => {
+            this.trackFailedStylesheets(stylesheets);
+            this.trackFailedScripts(scripts);
+            /** Tell the Pjax class that the eager files have been loaded */
             broadcaster.message("pjax", {
                 type: "css-ready",
                 requestUid: requestUid,
             });
-            fetchCSS(data.lazy);
+            fetchCSS(data.lazy).then(this.trackFailedStylesheets.bind(this));
+            fetchJS(data.lazyScripts).then(this.trackFailedScripts.bind(this));
         });
     }
 
@@ -178,26 +265,222 @@ class Runtime {
      * @param requestUid - the navigation request unique id
      */
     private parseHTML(body: string, requestUid: string): void {
-        this._bodyParserWorker.postMessage({
+        this.sendWorkerMessage({
             type: "parse",
             body: body,
             requestUid: requestUid,
         });
     }
 
+    /**
+     * Fetches the `dependencies.json` manifest generated by the CLI.
+     * The manifest is only used once the asset manifest has loaded so preloaded modules resolve to their content hashed filenames.
+     */
+    private fetchDependencyManifest(): void {
+        fetch(`${window.location.origin}/${djinnjsOutDir}/dependencies.json`, {
+            credentials: "include",
+            headers: new Headers({
+                Accept: "application/json",
+            }),
+        })
+            .then(request => (request.ok ? request.json() : null))
+            .then(dependencies => loadAssetManifest().then(() => dependencies))
+            .then(dependencies => {
+                this._dependencies = dependencies;
+            })
+            .catch(() => {});
+    }
+
+    /**
+     * Appends `modulepreload` links for every module in the files import graph so the browser can fetch the entire graph in parallel.
+     * Does nothing until the dependency manifest has been fetched.
+     * @param filename - the JavaScript filename
+     */
+    private preloadDependencies(filename: string): void {
+        if (this._dependencies === null) {
+            return;
+        }
+        const preloaded: Array<string> = [];
+        const queue: Array<string> = [...(this._dependencies[filename] ?? [])];
+        while (queue.length) {
+            const dependency = queue.shift();
+            if (preloaded.includes(dependency)) {
+                continue;
+            }
+            preloaded.push(dependency);
+            queue.push(...(this._dependencies[dependency] ?? []));
+            if (!document.head.querySelector(`[file="${dependency}.js"]`)) {
+                const link = document.createElement("link");
+                link.rel = "modulepreload";
+                link.href = resolveModuleURL(dependency);
+                link.setAttribute("file", `${dependency}.js`);
+                document.head.append(link);
+            }
+        }
+    }
+
+    /**
+     * Appends a `modulepreload` link for the web component and it's entire import graph.
+     * @param customElementTagName - the JavaScript filename
+     */
+    private preloadWebComponent(customElementTagName: string): void {
+        if (!document.head.querySelector(`[file="${customElementTagName}.js"]`)) {
+            const link = document.createElement("link");
+            link.rel = "modulepreload";
+            link.href = resolveModuleURL(customElementTagName);
+            link.setAttribute("file", `${customElementTagName}.js`);
+            document.head.append(link);
+        }
+        this.preloadDependencies(customElementTagName);
+    }
+
     /**
      * Upgrades a custom element into a web component using the dynamic import syntax.
      * @param customElementTagName - the JavaScript filename
      * @param customElement - the `Element` that has been upgraded
-     * @todo Switch to dynamic importing once Edge becomes chromium
+     * When the script fails to load the `component-state` is set to `error` and a `component-error` message is sent to the `runtime` inbox.
      * @see https://v8.dev/features/dynamic-import
      */
-    private upgradeToWebComponent(customElementTagName: string, customElement: Element): void {
-        fetchJS(customElementTagName).then(() => {
-            customElement.setAttribute("component-state", "mounted");
+    private upgradeToWebComponent(customElementTagName: string, customElement: Element): Promise<void> {
+        this.preloadDependencies(customElementTagName);
+        return fetchJS(customElementTagName).then(result => {
+            if (result.failed.length) {
+                customElement.setAttribute("component-state", "error");
+                this._failedComponents.push(customElement);
+                broadcaster.message("runtime", {
+                    type: "component-error",
+                    tagName: customElementTagName,
+                    files: result.failed,
+                });
+            } else {
+                customElement.setAttribute("component-state", "mounted");
+            }
+        });
+    }
+
+    /**
+     * Tracks the stylesheets that failed to load so they can be retried when the network comes back.
+     * @param result - the `FetchResult` object
+     */
+    private trackFailedStylesheets(result: FetchResult): void {
+        for (let i = 0; i < result.failed.length; i++) {
+            if (!this._failedStylesheets.includes(result.failed[i])) {
+                this._failedStylesheets.push(result.failed[i]);
+            }
+        }
+    }
+
+    /**
+     * Tracks the scripts that failed to load so they can be retried when the network comes back.
+     * @param result - the `FetchResult` object
+     */
+    private trackFailedScripts(result: FetchResult): void {
+        for (let i = 0; i < result.failed.length; i++) {
+            if (!this._failedScripts.includes(result.failed[i])) {
+                this._failedScripts.push(result.failed[i]);
+            }
+        }
+    }
+
+    /**
+     * Starts retrying the failed resources when the network comes back.
+     */
+    private handleOnline(): void {
+        clearTimeout(this._retryTimer);
+        this._retryAttempts = 0;
+        this.scheduleRetry();
+    }
+    private handleOnlineEvent: EventListener = this.handleOnline.bind(this);
+
+    /**
+     * Schedules the next retry using an exponential backoff, starting at 1 second.
+     */
+    private scheduleRetry(): void {
+        if (this._retryAttempts >= this._maxRetryAttempts || !navigator.onLine) {
+            this._retryTimer = null;
+            return;
+        }
+        const delay = 1000 * Math.pow(2, this._retryAttempts);
+        this._retryAttempts++;
+        this._retryTimer = window.setTimeout(this.retryFailedResources.bind(this), delay);
+    }
+
+    /**
+     * Fetches the failed stylesheets and scripts and upgrades the failed web components again.
+     * Resources that fail again are retried until the `_maxRetryAttempts` have been exceeded.
+     */
+    private retryFailedResources(): void {
+        const stylesheets = this._failedStylesheets;
+        const scripts = this._failedScripts;
+        const components = this._failedComponents.filter(element => element.isConnected);
+        this._failedStylesheets = [];
+        this._failedScripts = [];
+        this._failedComponents = [];
+        if (!stylesheets.length && !scripts.length && !components.length) {
+            this._retryTimer = null;
+            return;
+        }
+        const requests: Array<Promise<void>> = [fetchCSS(stylesheets).then(this.trackFailedStylesheets.bind(this)), fetchJS(scripts).then(this.trackFailedScripts.bind(this))];
+        for (let i = 0; i < components.length; i++) {
+            requests.push(this.upgradeToWebComponent(components[i].tagName.toLowerCase().trim(), components[i]));
+        }
+        Promise.all(requests).then(() => {
+            if (this._failedStylesheets.length || this._failedScripts.length || this._failedComponents.length) {
+                this.scheduleRetry();
+            } else {
+                this._retryTimer = null;
+            }
         });
     }
 
+    /**
+     * Starts upgrading the custom element when the first of it's loading strategies fires.
+     * The `loaded-by` attribute is set to the name of the strategy that fired and the `component-state` is `loading` until the web component is mounted.
+     * @param element - the custom element
+     * @param strategy - the loading strategy that fired
+     */
+    private mountWebComponent(element: Element, strategy: WebComponentLoad): void {
+        if (element.getAttribute("component-state") !== "unseen") {
+            return;
+        }
+        this._io.unobserve(element);
+        this.cleanupStrategies(element);
+        element.setAttribute("loaded-by", strategy);
+        const customElement = element.tagName.toLowerCase().trim();
+        if (customElements.get(customElement) === undefined) {
+            element.setAttribute("component-state", "loading");
+            const timing = telemetry.start("mount", `${customElement} (${strategy})`);
+            this.upgradeToWebComponent(customElement, element).then(() => {
+                telemetry.end(timing);
+            });
+        } else {
+            element.setAttribute("component-state", "mounted");
+        }
+    }
+
+    /**
+     * Registers a function that removes the listeners or observers of a loading strategy once the custom element starts mounting.
+     * @param element - the custom element
+     * @param cleanup - the function that removes the listeners or observers
+     */
+    private addStrategyCleanup(element: Element, cleanup: () => void): void {
+        const cleanups = this._strategyCleanups.get(element) ?? [];
+        cleanups.push(cleanup);
+        this._strategyCleanups.set(element, cleanups);
+    }
+
+    /**
+     * Removes the listeners and observers of every loading strategy of the custom element.
+     * @param element - the custom element
+     */
+    private cleanupStrategies(element: Element): void {
+        const cleanups = this._strategyCleanups.get(element) ?? [];
+        for (let i = 0; i < cleanups.length; i++) {
+            cleanups[i]();
+        }
+        this._strategyCleanups.delete(element);
+    }
+
     /**
      * When a custom element is observed by the `IntersectionObserver` API unobserve the element and attempt to upgrade the web component.
      * @param entries - an array of `IntersectionObserverEntry` objects
@@ -205,34 +488,168 @@ class Runtime {
     private handleIntersection(entries: Array<IntersectionObserverEntry>) {
         for (let i = 0; i < entries.length; i++) {
             if (entries[i].isIntersecting) {
-                this._io.unobserve(entries[i].target);
-                const customElement = entries[i].target.tagName.toLowerCase().trim();
-                if (customElements.get(customElement) === undefined) {
-                    this.upgradeToWebComponent(customElement, entries[i].target);
-                } else {
-                    entries[i].target.setAttribute("component-state", "mounted");
-                }
+                this.mountWebComponent(entries[i].target, "lazy");
             }
         }
     }
     private intersectionCallback: IntersectionObserverCallback = this.handleIntersection.bind(this);
 
+    /**
+     * Upgrades the custom element once the browser is idle.
+     * Falls back to a timeout when `requestIdleCallback` isn't supported.
+     */
+    private mountWhenIdle(element: Element): void {
+        if (supportsIdleCallback(window)) {
+            const win = window;
+            const handle = win.requestIdleCallback(() => {
+                this.mountWebComponent(element, "idle");
+            });
+            this.addStrategyCleanup(element, () => {
+                win.cancelIdleCallback(handle);
+            });
+        } else {
+            const timer = window.setTimeout(() => {
+                this.mountWebComponent(element, "idle");
+            }, 1);
+            this.addStrategyCleanup(element, () => {
+                window.clearTimeout(timer);
+            });
+        }
+    }
+
+    /**
+     * Upgrades the custom element after the first pointer or focus interaction.
+     */
+    private mountOnInteraction(element: Element): void {
+        const handleInteraction = () => {
+            this.mountWebComponent(element, "interaction");
+        };
+        element.addEventListener("pointerenter", handleInteraction);
+        element.addEventListener("focusin", handleInteraction);
+        this.addStrategyCleanup(element, () => {
+            element.removeEventListener("pointerenter", handleInteraction);
+            element.removeEventListener("focusin", handleInteraction);
+        });
+    }
+
+    /**
+     * Upgrades the custom element when the `loading-media` media query matches.
+     * Falls back to the `lazy` strategy when the `loading-media` attribute is missing.
+     */
+    private mountOnMediaMatch(element: Element): void {
+        const query = element.getAttribute("loading-media");
+        if (!query) {
+            if (debug) {
+                console.warn(`Web components using the media loading strategy require a loading-media attribute, falling back to the lazy loading strategy.`, element);
+            }
+            this._io.observe(element);
+            return;
+        }
+        const mediaQueryList = window.matchMedia(query);
+        if (mediaQueryList.matches) {
+            this.mountWebComponent(element, "media");
+            return;
+        }
+        const handleChange = (e: MediaQueryListEvent) => {
+            if (e.matches) {
+                this.mountWebComponent(element, "media");
+            }
+        };
+        mediaQueryList.addListener(handleChange);
+        this.addStrategyCleanup(element, () => {
+            mediaQueryList.removeListener(handleChange);
+        });
+    }
+
+    /**
+     * Upgrades the custom element when it's within the `loading-margin` root margin of the viewport.
+     * Observers are shared by elements using the same root margin.
+     */
+    private mountWhenNearlyVisible(element: Element): void {
+        const rootMargin = element.getAttribute("loading-margin") || "200px";
+        if (!this._marginObservers[rootMargin]) {
+            this._marginObservers[rootMargin] = new IntersectionObserver(
+                (entries: Array<IntersectionObserverEntry>) => {
+                    for (let i = 0; i < entries.length; i++) {
+                        if (entries[i].isIntersecting) {
+                            this.mountWebComponent(entries[i].target, "visible-margin");
+                        }
+                    }
+                },
+                { rootMargin: rootMargin }
+            );
+        }
+        const observer = this._marginObservers[rootMargin];
+        observer.observe(element);
+        this.addStrategyCleanup(element, () => {
+            observer.unobserve(element);
+        });
+    }
+
     /**
      * Collect all custom elements tagged with a `web-component` attribute that have not already been tracked.
-     * If the custom element is tagged with `loading="eager"` upgrade the custom element otherwise track the
-     * custom element with the `IntersectionObserver` API.
+     * The `loading` attribute accepts a space separated list of strategies, the first strategy to fire upgrades the custom element:
+     * - `eager` upgrades the custom element right away
+     * - `lazy` upgrades the custom element when it enters the viewport, this is the default strategy
+     * - `idle` upgrades the custom element when the browser is idle
+     * - `interaction` upgrades the custom element after the first pointer or focus interaction
+     * - `media` upgrades the custom element when the `loading-media` media query matches
+     * - `visible-margin` upgrades the custom element when it's within the `loading-margin` root margin of the viewport
+     * - `never-on-2g` never upgrades the custom element on 2g connections
      */
     private handleWebComponents(): void {
         const customElements = Array.from(document.body.querySelectorAll("[web-component]:not([component-state])"));
         for (let i = 0; i < customElements.length; i++) {
             const element = customElements[i];
-            const loadType = element.getAttribute("loading") as WebComponentLoad;
-            if (loadType === "eager") {
-                const customElement = element.tagName.toLowerCase().trim();
-                this.upgradeToWebComponent(customElement, element);
-            } else {
-                element.setAttribute("component-state", "unseen");
-                this._io.observe(customElements[i]);
+            const strategies = (element.getAttribute("loading") || "lazy")
+                .trim()
+                .toLowerCase()
+                .split(/\s+/g) as Array<WebComponentLoad>;
+
+            if (strategies.includes("never-on-2g")) {
+                if (env.connection === "2g" || env.connection === "slow-2g") {
+                    element.setAttribute("component-state", "skipped");
+                    continue;
+                }
+                if (strategies.length === 1) {
+                    strategies.push("lazy");
+                }
+            }
+
+            element.setAttribute("component-state", "unseen");
+            for (let k = 0; k < strategies.length; k++) {
+                /** Strategies such as `eager` can mount the custom element right away, the remaining strategies aren't needed */
+                if (element.getAttribute("component-state") !== "unseen") {
+                    break;
+                }
+                switch (strategies[k]) {
+                    case "eager":
+                        this.mountWebComponent(element, "eager");
+                        break;
+                    case "idle":
+                        this.mountWhenIdle(element);
+                        break;
+                    case "interaction":
+                        this.mountOnInteraction(element);
+                        break;
+                    case "media":
+                        this.mountOnMediaMatch(element);
+                        break;
+                    case "visible-margin":
+                        this.mountWhenNearlyVisible(element);
+                        break;
+                    case "never-on-2g":
+                        break;
+                    case "lazy":
+                        this._io.observe(element);
+                        break;
+                    default:
+                        if (debug) {
+                            console.warn(`Unknown web component loading strategy: ${strategies[k]}`);
+                        }
+                        this._io.observe(element);
+                        break;
+                }
             }
         }
     }
@@ -1,9 +1,45 @@
-// @ts-nocheck
+// @ts-check
+
+/**
+ * A window client controlled by this service worker.
+ * @typedef {object} ServiceWorkerClient
+ * @property {string} url
+ * @property {VisibilityState} visibilityState
+ * @property {(message: VersionedMessage<ServiceWorkerResponse>) => void} postMessage
+ */
+
+/**
+ * @typedef {object} ServiceWorkerFetchEvent
+ * @property {Request} request
+ * @property {(response: Response | Promise<Response>) => void} respondWith
+ */
+
+/**
+ * @typedef {object} ServiceWorkerRequestEvent
+ * @property {VersionedMessage<ServiceWorkerRequest>} data
+ * @property {ServiceWorkerClient} source
+ */
+
+/**
+ * The service worker globals used by this script, the DOM library types `self` as a `Window`.
+ * @typedef {object} ServiceWorkerScope
+ * @property {{ matchAll: () => Promise<Array<ServiceWorkerClient>> }} clients
+ * @property {{ (type: 'fetch', listener: (event: ServiceWorkerFetchEvent) => void): void; (type: 'message', listener: (event: ServiceWorkerRequestEvent) => void): void }} addEventListener
+ */
+
+const serviceWorker = /** @type {ServiceWorkerScope} */ (/** @type {unknown} */ (self));
 
 let resourcesCacheId = 'resources-initial';
 let contentCacheId = 'content-initial';
 
-self.addEventListener('fetch', event => {
+/** Cache key of the last asset manifest, used to detect which assets changed */
+const assetManifestKey = '/djinnjs-asset-manifest';
+
+/** Message protocol version, must match the `WorkerProtocolVersion` type declared in `messages.d.ts` */
+const messageProtocolVersion = 2;
+
+serviceWorker.addEventListener('fetch', event => {
+    // @ts-ignore the pattern is replaced with a regular expression literal by the CLI
     const noCache = event.request.url.match(new RegExp(REPLACE_WITH_NO_CACHE_PATTERN));
     if (noCache || event.request.method !== 'GET') {
         event.respondWith(
@@ -41,20 +77,32 @@ self.addEventListener('fetch', event => {
     }
 });
 
-self.addEventListener('message', event => {
-    const { type } = event.data;
-    switch (type) {
+/**
+ * Handles the `ServiceWorkerRequest` messages sent by the Pjax class.
+ * Messages using a different protocol version are answered with a `version-mismatch` message.
+ */
+serviceWorker.addEventListener('message', event => {
+    const message = event.data;
+    if (message.version !== messageProtocolVersion) {
+        event.source.postMessage({
+            type: 'version-mismatch',
+            received: message.version === undefined ? null : message.version,
+            version: messageProtocolVersion,
+        });
+        return;
+    }
+    switch (message.type) {
         case 'cachebust':
-            cachebust(event.data.url);
+            cachebust(message.url);
             break;
         case 'page-refresh':
-            updatePageCache(event.data.url, event.data.network);
+            updatePageCache(message.url, message.network);
             break;
         case 'clear-content-cache':
             clearContentCache();
             break;
         default:
-            console.error(`Unknown Service Worker message type: ${type}`);
+            console.error(`Unknown Service Worker message type: ${event.data.type}`);
             break;
     }
 });
@@ -71,20 +119,62 @@ function clearContentCache() {
     });
 }
 
+/**
+ * @param {string} maximumContentPrompts
+ * @param {string} contentCacheDuration
+ * @param {string} url - the URL of the page that requested the cachebust
+ */
 function informClientOfCachebustValues(maximumContentPrompts, contentCacheDuration, url) {
-    clients = self.clients.matchAll().then(clients => {
+    serviceWorker.clients.matchAll().then(clients => {
         clients.map(client => {
             if (client.visibilityState === 'visible' && client.url === url) {
                 client.postMessage({
                     type: 'cachebust',
                     max: parseInt(maximumContentPrompts),
                     contentCacheExpires: parseInt(contentCacheDuration),
+                    version: messageProtocolVersion,
                 });
             }
         });
     });
 }
 
+/**
+ * Removes the cached assets that changed since the last asset manifest.
+ * Cached files are matched using their full path, files that aren't listed in the manifest are removed.
+ * Content hashed files are kept while the manifest references them, files using their original names are kept while their hash doesn't change.
+ * @param {{ [filename: string]: string }} assets - the asset manifest, filenames mapped to their content hashed filenames
+ * @param {string} assetPath - the pathname of the output directory
+ */
+async function evictChangedAssets(assets, assetPath) {
+    const cache = await caches.open(resourcesCacheId);
+    const previousManifest = await cache.match(assetManifestKey);
+    const previousAssets = previousManifest ? await previousManifest.json() : {};
+    const hashedPaths = [];
+    const unchangedPaths = [];
+    for (const filename in assets) {
+        hashedPaths.push(`${assetPath}${assets[filename]}`);
+        if (previousAssets[filename] === assets[filename]) {
+            unchangedPaths.push(`${assetPath}${filename}`);
+        }
+    }
+    const requests = await cache.keys();
+    await Promise.all(
+        requests.map(request => {
+            const pathname = new URL(request.url).pathname;
+            /** Only the assets of the build are evicted, other cached resources such as vendor files are left alone */
+            if (!pathname.startsWith(assetPath) || hashedPaths.includes(pathname) || unchangedPaths.includes(pathname)) {
+                return;
+            }
+            return cache.delete(request);
+        })
+    );
+    await cache.put(assetManifestKey, new Response(JSON.stringify(assets)));
+}
+
+/**
+ * @param {string} url - the URL of the page that requested the cachebust
+ */
 async function cachebust(url) {
     const request = await fetch(`/resources-cachebust.json`, {
         cache: 'no-cache',
@@ -95,8 +185,9 @@ async function cachebust(url) {
     });
     if (request.ok) {
         const response = await request.json();
-        resourcesCacheId = `resources-${response.cacheTimestamp}`;
-        caches.keys().then(cacheNames => {
+        /** Builds with content hashed filenames keep their resources cache and only evict the assets that changed */
+        resourcesCacheId = response.assets ? 'resources-hashed' : `resources-${response.cacheTimestamp}`;
+        await caches.keys().then(cacheNames => {
             return Promise.all(
                 cacheNames.map(cacheName => {
                     if (new RegExp(/resources/i).test(cacheName) && cacheName !== resourcesCacheId) {
@@ -105,6 +196,9 @@ async function cachebust(url) {
                 })
             );
         });
+        if (response.assets) {
+            await evictChangedAssets(response.assets, response.assetPath);
+        }
     }
 
     const request2 = await fetch('REPLACE_WITH_CACHEBUST_URL', {
@@ -140,10 +234,14 @@ async function cachebust(url) {
                 );
             });
         }
-        informClientOfCachebustValues(4, 7, url);
+        informClientOfCachebustValues('4', '7', url);
     }
 }
 
+/**
+ * @param {string} url - the URL of the page to refresh
+ * @param {string} network - the effective connection type of the client
+ */
 async function updatePageCache(url, network) {
     try {
         const request = new Request(url);
@@ -169,11 +267,12 @@ async function updatePageCache(url, network) {
                 });
             });
         }
-        const clients = await self.clients.matchAll();
+        const clients = await serviceWorker.clients.matchAll();
         clients.map(client => {
             if (client.visibilityState === 'visible' && client.url === url) {
                 client.postMessage({
                     type: 'page-refresh',
+                    version: messageProtocolVersion,
                 });
             }
         });
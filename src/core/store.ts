@@ -0,0 +1,85 @@
+import { broadcaster } from "./broadcaster";
+
+/**
+ * Actions are applied by the broadcast worker.
+ * `set` shallow merges the state, `delete` removes keys from the state, `reset` restores the initial state.
+ */
+export type StoreAction<TState> = { type: "set"; state: Partial<TState> } | { type: "delete"; keys: Array<keyof TState & string> } | { type: "reset" };
+
+/**
+ * The message subscribed inboxes receive at most once per frame.
+ * `diff` contains the changed keys, deleted keys have an `undefined` value.
+ */
+export interface StoreUpdateMessage<TState> extends MessageData {
+    type: "store-update";
+    store: string;
+    diff: Partial<TState>;
+    state: TState;
+}
+
+class Store<TState extends object> {
+    public name: string;
+
+    constructor(name: string, initialState: TState) {
+        this.name = name;
+        broadcaster.message("broadcast-worker", {
+            type: "store-create",
+            store: this.name,
+            state: initialState,
+        });
+    }
+
+    /**
+     * Sends an action to the broadcast worker.
+     * @param action - the `StoreAction` object
+     */
+    public dispatch(action: StoreAction<TState>): void {
+        broadcaster.message("broadcast-worker", {
+            type: "store-action",
+            store: this.name,
+            action: action,
+        });
+    }
+
+    /**
+     * Shallow merges the state, alias of `dispatch({ type: "set", state: state })`.
+     * @param state - the keys and values that will be updated
+     */
+    public set(state: Partial<TState>): void {
+        this.dispatch({ type: "set", state: state });
+    }
+
+    /**
+     * Subscribes an inbox to the store. The inbox receives the current state right away followed by `store-update` messages whenever the state changes.
+     * @param inboxName - the name of the inbox
+     */
+    public subscribe(inboxName: string): void {
+        broadcaster.message("broadcast-worker", {
+            type: "store-subscribe",
+            store: this.name,
+            inbox: inboxName,
+        });
+    }
+
+    /**
+     * Stops sending `store-update` messages to the inbox.
+     * @param inboxName - the name of the inbox
+     */
+    public unsubscribe(inboxName: string): void {
+        broadcaster.message("broadcast-worker", {
+            type: "store-unsubscribe",
+            store: this.name,
+            inbox: inboxName,
+        });
+    }
+}
+
+/**
+ * Creates a state store that lives in the broadcast worker.
+ * Stores are shared by name, creating a store that already exists will not reset it's state.
+ * @param name - the unique name of the store
+ * @param initialState - the initial state object, values must be structured cloneable
+ */
+export function createStore<TState extends object>(name: string, initialState: TState): Store<TState> {
+    return new Store<TState>(name, initialState);
+}
@@ -0,0 +1,131 @@
+import { broadcaster } from "./broadcaster";
+import { debug } from "./env";
+import { loadingBudgets } from "./config";
+
+export type TimelineCategory = "render-blocking" | "fetch" | "navigation" | "navigation-phase" | "mount";
+
+export type TimelineEntry = {
+    category: TimelineCategory;
+    name: string;
+    startTime: number;
+    duration: number;
+};
+
+/**
+ * The message sent to the `runtime` inbox whenever a timeline entry is recorded.
+ */
+export interface TimelineEntryMessage extends MessageData {
+    type: "timeline-entry";
+    entry: TimelineEntry;
+    overBudget: boolean;
+}
+
+type PendingEntry = {
+    id: string;
+    category: TimelineCategory;
+    name: string;
+    startTime: number;
+};
+
+/** Maximum milliseconds for each category, categories without a budget are never reported */
+type LoadingBudgets = { [category in TimelineCategory]?: number };
+
+class Telemetry {
+    public timeline: Array<TimelineEntry>;
+    private pendingEntries: Array<PendingEntry>;
+    private budgets: LoadingBudgets;
+    private timelineLimit = 500;
+    private entryCount = 0;
+
+    constructor() {
+        this.timeline = [];
+        this.pendingEntries = [];
+        this.budgets = {
+            "render-blocking": 1000,
+            fetch: 2000,
+            navigation: 1000,
+            mount: 250,
+            ...loadingBudgets,
+        };
+    }
+
+    /**
+     * Starts timing an entry and creates the `performance` start mark.
+     * @param category - the `TimelineCategory` of the entry
+     * @param name - a name describing the entry, such as the fetched files or the mounted components tag name
+     * @returns - the entry id `string` that is required to end the entry
+     */
+    public start(category: TimelineCategory, name: string): string {
+        const id = `djinnjs:${category}:${this.entryCount++}`;
+        this.pendingEntries.push({
+            id: id,
+            category: category,
+            name: name,
+            startTime: performance.now(),
+        });
+        if ("mark" in performance) {
+            performance.mark(`${id}:start`);
+        }
+        return id;
+    }
+
+    /**
+     * Records the entry, creates the `performance` measure, and sends a `timeline-entry` message to the `runtime` inbox.
+     * Entries that exceed their categories budget are reported in debug builds.
+     * @param id - the entry id `string` provided by the `start()` method
+     */
+    public end(id: string): void {
+        const pendingEntry = this.removePendingEntry(id);
+        if (pendingEntry === null) {
+            return;
+        }
+        const entry: TimelineEntry = {
+            category: pendingEntry.category,
+            name: pendingEntry.name,
+            startTime: pendingEntry.startTime,
+            duration: performance.now() - pendingEntry.startTime,
+        };
+        if ("measure" in performance) {
+            performance.mark(`${id}:end`);
+            performance.measure(`djinnjs ${entry.category}: ${entry.name}`, `${id}:start`, `${id}:end`);
+            performance.clearMarks(`${id}:start`);
+            performance.clearMarks(`${id}:end`);
+        }
+        this.timeline.push(entry);
+        if (this.timeline.length > this.timelineLimit) {
+            this.timeline.shift();
+        }
+
+        const budget = this.budgets[entry.category];
+        const overBudget = budget !== undefined && entry.duration > budget;
+        if (overBudget && debug) {
+            console.warn(`${entry.category} budget exceeded: ${entry.name} took ${Math.round(entry.duration)}ms, the budget is ${budget}ms`);
+        }
+        broadcaster.message("runtime", {
+            type: "timeline-entry",
+            entry: entry,
+            overBudget: overBudget,
+        });
+    }
+
+    /**
+     * Discards an entry that will never end, such as a stale navigation request.
+     * @param id - the entry id `string` provided by the `start()` method
+     */
+    public cancel(id: string): void {
+        if (this.removePendingEntry(id) !== null && "clearMarks" in performance) {
+            performance.clearMarks(`${id}:start`);
+        }
+    }
+
+    private removePendingEntry(id: string): PendingEntry {
+        for (let i = 0; i < this.pendingEntries.length; i++) {
+            if (this.pendingEntries[i].id === id) {
+                return this.pendingEntries.splice(i, 1)[0];
+            }
+        }
+        return null;
+    }
+}
+
+export const telemetry: Telemetry = new Telemetry();
@@ -6,51 +6,72 @@ import { fade } from "../transitions/fade";
 import { slide } from "../transitions/slide";
 import { none } from "../transitions/none";
 
+export type TransitionRegion = {
+    /** The query selector string that will be used to get the view that needs to be swapped */
+    selector: string;
+    /** The incoming `innerHTML` for the new view */
+    html: string;
+    transition: string | null;
+    transitionData: string | null;
+};
+
+/**
+ * Swaps a single region using the regions transition.
+ * @param region - the `TransitionRegion` object
+ */
+function transitionRegion(region: TransitionRegion): Promise<{}> {
+    const { selector, html, transition, transitionData } = region;
+    /** Pjax doesn't load on 2g, however, network conditions can change. Do not touch. */
+    if (env.connection === "2g" || env.connection === "slow-2g") {
+        return none(selector, html, transitionData);
+    }
+    const transitionEffect = transition || defaultTransition;
+    switch (transitionEffect) {
+        case "slide":
+            return slide(selector, html, transitionData);
+        case "fade":
+            return fade(selector, html, transitionData);
+        case "none":
+            return none(selector, html, transitionData);
+        default:
+            if (debug) {
+                console.error(`Undefined transition handle: ${transition}`);
+            }
+            return none(selector, html, transitionData);
+    }
+}
+
+/**
+ * Swaps a single region, a failed transition falls back to swapping the view without a transition.
+ * @param region - the `TransitionRegion` object
+ */
+function swapRegion(region: TransitionRegion): Promise<{}> {
+    return transitionRegion(region).catch(error => {
+        if (debug) {
+            console.error(`Failed to transition ${region.selector}:`, error);
+        }
+        return none(region.selector, region.html, region.transitionData);
+    });
+}
+
 /**
  * The transition manager is used to manager Pjax page transitions. There must always be a `default` page transition, even if it's `none`
  * The page transition is set using the `pjax-transition` attribute on the element that riggered the transition.
  * Page transition data is set using the `pjax-transition-data` attribute on the element that riggered the transition.
  * Page transition data is a `string` by default, typically it's a stringified JSON object.
  * DO NOT parse the JSON object until you need it. Passing structured data is slower and has a higher resource cost than strings.
- * @param selector - the query selector string that will be used to get the views that need to be swapped
- * @param newHTML - the incoming `innerHTML` for the new view
- * @param transition - the name of the desired transition
- * @param transitionData - a custom data object or value that can be used to modify the transition
+ * Every region is swapped at the same time using it's own transition, the returned promise resolves once every transition has finished or failed.
+ * @param regions - the `TransitionRegion` objects describing the views that need to be swapped
  */
-export function transitionManager(selector: string, newHTML: string, transition: string | null, transitionData: string | null): Promise<{}> {
+export function transitionManager(regions: Array<TransitionRegion>): Promise<{}> {
     return new Promise(resolve => {
-        /** Pjax doesn't load on 2g, however, network conditions can change. Do not touch. */
-        if (env.connection === "2g" || env.connection === "slow-2g") {
-            none(selector, newHTML, transitionData).then(() => {
+        Promise.all(regions.map(swapRegion))
+            .then(() => {
+                resolve();
+            })
+            .catch(error => {
+                console.error(error);
                 resolve();
             });
-        } else {
-            const transitionEffect = transition || defaultTransition;
-            switch (transitionEffect) {
-                case "slide":
-                    slide(selector, newHTML, transitionData).then(() => {
-                        resolve();
-                    });
-                    break;
-                case "fade":
-                    fade(selector, newHTML, transitionData).then(() => {
-                        resolve();
-                    });
-                    break;
-                case "none":
-                    none(selector, newHTML, transitionData).then(() => {
-                        resolve();
-                    });
-                    break;
-                default:
-                    if (debug) {
-                        console.error(`Undefined transition handle: ${transition}`);
-                    }
-                    none(selector, newHTML, transitionData).then(() => {
-                        resolve();
-                    });
-                    break;
-            }
-        }
     });
 }
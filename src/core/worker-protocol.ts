@@ -0,0 +1,80 @@
+import { debug } from "./env";
+import { broadcaster } from "./broadcaster";
+
+export const workerProtocolVersion: WorkerProtocolVersion = 2;
+
+/**
+ * The message sent to the `runtime` inbox when a worker uses a different message protocol version.
+ */
+export interface WorkerVersionMismatchNotice extends MessageData {
+    type: "worker-version-mismatch";
+    worker: string;
+    expected: number;
+    received: number;
+}
+
+/** Workers that already reported a version mismatch */
+const mismatchedWorkers: Array<string> = [];
+
+/**
+ * Adds the protocol version to a message that will be posted to a worker.
+ * @param message - the message that will be posted
+ */
+export function versionMessage<TMessage>(message: TMessage): VersionedMessage<TMessage> {
+    return { ...message, version: workerProtocolVersion };
+}
+
+/**
+ * Creates the `worker-version-mismatch` message for the `runtime` inbox.
+ * @param worker - the name of the mismatched worker
+ * @param received - the protocol version used by the worker
+ */
+export function versionMismatchNotice(worker: string, received: number): WorkerVersionMismatchNotice {
+    return {
+        type: "worker-version-mismatch",
+        worker: worker,
+        expected: workerProtocolVersion,
+        received: received,
+    };
+}
+
+/**
+ * Sends a `worker-version-mismatch` message to the `runtime` inbox.
+ * A mismatched service worker is also told to check for an update.
+ * The broadcaster reports a mismatched broadcast worker itself since the message can't be routed through it.
+ * @param worker - the name of the mismatched worker
+ * @param received - the protocol version used by the worker
+ */
+export function reportVersionMismatch(worker: string, received: number): void {
+    if (worker === "service-worker" && "serviceWorker" in navigator) {
+        navigator.serviceWorker.getRegistration().then(registration => {
+            registration?.update();
+        });
+    }
+    broadcaster.message("runtime", versionMismatchNotice(worker, received));
+}
+
+/**
+ * Checks the protocol version of a message received from a worker.
+ * Only the first mismatch of each worker is reported.
+ * @param worker - the name of the worker that sent the message
+ * @param message - the received message
+ * @param onMismatch - optional callback that is called with the worker name and the workers version when the first mismatch is detected
+ * @returns - `true` when the message uses the same protocol version, messages using a different version should be ignored
+ */
+export function checkWorkerVersion(worker: string, message: { version?: number }, onMismatch: (worker: string, received: number) => void = null): boolean {
+    if (message?.version === workerProtocolVersion) {
+        return true;
+    }
+    if (!mismatchedWorkers.includes(worker)) {
+        mismatchedWorkers.push(worker);
+        const received = message?.version ?? null;
+        if (debug) {
+            console.error(`The ${worker} uses message protocol version ${received} but version ${workerProtocolVersion} was expected, it is probably a stale cached file.`);
+        }
+        if (onMismatch) {
+            onMismatch(worker, received);
+        }
+    }
+    return false;
+}
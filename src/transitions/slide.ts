@@ -10,9 +10,14 @@ export function slide(selector: string, newHTML: string, transitionData: string
 
         /** Prepare for update */
         const currentMain = document.body.querySelector(selector) as HTMLElement;
-        const newMain = document.createElement(selector) as HTMLElement;
+        const newMain = document.createElement(currentMain.tagName) as HTMLElement;
+        for (let i = 0; i < currentMain.attributes.length; i++) {
+            const attribute = currentMain.attributes[i];
+            if (attribute.name !== "style") {
+                newMain.setAttribute(attribute.name, attribute.value);
+            }
+        }
         newMain.innerHTML = newHTML;
-        newMain.dataset.id = currentMain.dataset.id;
         newMain.style.transform = `translateX(${100 * -data.direction}vw)`;
         currentMain.before(newMain);
 
@@ -0,0 +1,48 @@
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const fixturesDir = path.resolve(__dirname, 'fixtures');
+
+/** Transpiles the tokenizer module so it can be required without compiling the project */
+function loadTokenizer() {
+    const filePath = path.resolve(__dirname, '../src/core/html-tokenizer.ts');
+    const source = fs.readFileSync(filePath).toString();
+    const { outputText } = ts.transpileModule(source, {
+        compilerOptions: {
+            target: ts.ScriptTarget.ES2019,
+            module: ts.ModuleKind.CommonJS,
+        },
+        fileName: filePath,
+    });
+    const tokenizer = { exports: {} };
+    new Function('module', 'exports', outputText)(tokenizer, tokenizer.exports);
+    return tokenizer.exports;
+}
+
+const { tokenizeHTML, parseResources } = loadTokenizer();
+const fixtures = fs.readdirSync(fixturesDir).filter(file => /\.html$/.test(file));
+
+let failed = 0;
+for (const fixture of fixtures) {
+    const name = fixture.replace(/\.html$/, '');
+    const body = fs.readFileSync(path.join(fixturesDir, fixture)).toString();
+    const expected = JSON.parse(fs.readFileSync(path.join(fixturesDir, `${name}.json`)).toString());
+    try {
+        if (expected.tags) {
+            assert.deepStrictEqual([...tokenizeHTML(body)], expected.tags);
+        }
+        assert.deepStrictEqual(parseResources(body), expected.resources);
+        console.log(`ok - ${name}`);
+    } catch (error) {
+        failed++;
+        console.log(`not ok - ${name}`);
+        console.log(error.message);
+    }
+}
+
+console.log(`${fixtures.length - failed}/${fixtures.length} fixtures passed`);
+if (failed) {
+    process.exit(1);
+}